@@ -1,6 +1,17 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
-import { GameCanvas } from './components/GameCanvas';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { GameCanvas, GameCanvasHandle } from './components/GameCanvas';
+import { LevelEditor } from './components/LevelEditor';
+import { loadCampaign } from './levels';
+import { toLevelData } from './game/LevelLoader';
+import { readSeedFromUrl } from './game/Random';
+import { parseReplay, serializeReplay } from './game/Replay';
+import { LevelInfo, PlaybackState } from './game/GameEngine';
+import { GamepadNotice, padPlayer } from './game/InputManager';
+import { downloadText } from './utils/download';
+import { drawSpriteCanvas } from './utils/assetGenerator';
+import { SPRITES } from './constants';
+import { Level, PowerUpKind, PowerUpTimers } from './types';
 
 const PixelHeart: React.FC<{ className?: string }> = ({ className }) => (
   <svg 
@@ -15,6 +26,18 @@ const PixelHeart: React.FC<{ className?: string }> = ({ className }) => (
   </svg>
 );
 
+const POWER_UP_HUD: { kind: PowerUpKind; label: string; sprite: number[][]; color: string }[] = [
+  { kind: 'hammer', label: 'HAMMER', sprite: SPRITES.POWERUP_HAMMER, color: 'text-red-400' },
+  { kind: 'cocoa', label: 'COCOA', sprite: SPRITES.POWERUP_COCOA, color: 'text-orange-300' },
+  { kind: 'shield', label: 'SHIELD', sprite: SPRITES.POWERUP_SHIELD, color: 'text-teal-300' }
+];
+
+// Co-op HUD labels, Santa first
+const PLAYER_HUD: { label: string; color: string }[] = [
+  { label: 'SANTA', color: 'text-red-500' },
+  { label: 'MRS. CLAUS', color: 'text-purple-400' }
+];
+
 const LOADING_MESSAGES = [
   "POLISHING RUDOLPH'S NOSE...",
   "CALCULATING CHIMNEY CIRCUMFERENCE...",
@@ -71,13 +94,36 @@ const LoadingScreen: React.FC<{ progress: number }> = ({ progress }) => {
 };
 
 const App: React.FC = () => {
-  const [score, setScore] = useState(0);
-  const [lives, setLives] = useState(3);
+  const [scores, setScores] = useState<number[]>([0]); // Per player
+  const [lives, setLives] = useState<number[]>([3]);
+  const [players, setPlayers] = useState(1);
   const [highScore, setHighScore] = useState(1440);
   const [gameOver, setGameOver] = useState(false);
   const [resetTrigger, setResetTrigger] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
   const [loadingProgress, setLoadingProgress] = useState(0);
+  const [mode, setMode] = useState<'play' | 'edit'>('play');
+  const [testLevel, setTestLevel] = useState<Level | null>(null);
+  const [seed, setSeed] = useState<number | null>(null);
+  const urlSeed = useMemo(() => readSeedFromUrl() ?? undefined, []);
+  const editorStartLevel = useMemo(() => toLevelData(loadCampaign()[0]), []);
+  const [playback, setPlayback] = useState<PlaybackState | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const [paused, setPaused] = useState(false);
+  const [onTitle, setOnTitle] = useState(false);
+  const [powerUps, setPowerUps] = useState<PowerUpTimers[]>([]); // Per player, like the combo and sack
+  const [levelInfo, setLevelInfo] = useState<LevelInfo | null>(null);
+  const [bonus, setBonus] = useState<{ value: number; hurry: boolean } | null>(null);
+  const [combo, setCombo] = useState<number[]>([]);
+  const [sack, setSack] = useState<{ carried: number; capacity: number }[]>([]);
+  const [boss, setBoss] = useState<{ health: number; maxHealth: number }>({ health: 0, maxHealth: 0 });
+  const [gamepadToast, setGamepadToast] = useState<GamepadNotice | null>(null);
+  const powerUpIcons = useMemo(
+    () => Object.fromEntries(POWER_UP_HUD.map(p => [p.kind, drawSpriteCanvas(p.sprite).toDataURL()])),
+    []
+  );
+  const canvasRef = useRef<GameCanvasHandle>(null);
+  const replayInput = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     const duration = 2500; // Shortened to 2.5 seconds
@@ -98,51 +144,268 @@ const App: React.FC = () => {
     return () => clearInterval(timer);
   }, []);
 
-  const handleScore = (s: number) => {
-    setScore(s);
-    if (s > highScore) setHighScore(s);
+  // Engine callbacks are captured once, so these only use state setters
+  const handleScore = (player: number, s: number) => {
+    setScores(prev => Object.assign([...prev], { [player]: s }));
+    setHighScore(prev => Math.max(prev, s));
+  };
+
+  const handleLives = (player: number, l: number) => {
+    setLives(prev => Object.assign([...prev], { [player]: l }));
+  };
+
+  const handlePowerUps = (player: number, timers: PowerUpTimers) => {
+    setPowerUps(prev => Object.assign([...prev], { [player]: timers }));
+  };
+
+  const handleCombo = (player: number, multiplier: number) => {
+    setCombo(prev => Object.assign([...prev], { [player]: multiplier }));
   };
 
+  const handleSack = (player: number, carried: number, capacity: number) => {
+    setSack(prev => Object.assign([...prev], { [player]: { carried, capacity } }));
+  };
+
+  // A fresh object every time, so the toast's timer restarts even for the same pad
+  const handleGamepad = (notice: GamepadNotice) => setGamepadToast({ ...notice });
+
+  useEffect(() => {
+    if (!gamepadToast) return;
+    const timer = setTimeout(() => setGamepadToast(null), 2500);
+    return () => clearTimeout(timer);
+  }, [gamepadToast]);
+
   const handleGameOver = () => {
     setGameOver(true);
   };
 
-  const handleRestart = () => {
+  const resetSession = () => {
     setGameOver(false);
-    setScore(0);
-    setLives(3);
+    setScores([]); // The new run reports each of its players
+    setLives([]);
+    setPaused(false);
+    setPowerUps([]);
+    setCombo([]);
+    setSack([]);
+    setBoss({ health: 0, maxHealth: 0 });
+  };
+
+  const handleRestart = () => {
+    resetSession();
+    setOnTitle(false);
+    setResetTrigger(prev => prev + 1);
+  };
+
+  const handleTogglePlayers = () => {
+    setPlayers(prev => prev === 1 ? 2 : 1);
+    handleRestart();
+  };
+
+  const handleQuit = () => {
+    if (testLevel) {
+      // Play-tests quit back to the editor
+      resetSession();
+      setTestLevel(null);
+      return;
+    }
+    resetSession();
+    setPaused(true);
+    setOnTitle(true);
     setResetTrigger(prev => prev + 1);
   };
 
+  const handleStart = () => {
+    setOnTitle(false);
+    setPaused(false);
+  };
+
+  const handleSaveReplay = () => {
+    const replay = canvasRef.current?.getReplay();
+    if (replay) downloadText(`santa-scramble-${replay.seed}.replay.json`, serializeReplay(replay));
+  };
+
+  const handleLoadReplay = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const replay = parseReplay(await file.text());
+      resetSession();
+      setOnTitle(false);
+      setReplayError(null);
+      canvasRef.current?.playReplay(replay);
+    } catch (err) {
+      setReplayError((err as Error).message);
+    }
+  };
+
+  const handleOpenEditor = () => {
+    resetSession();
+    setOnTitle(false);
+    setMode('edit');
+  };
+
+  const handleExitEditor = () => {
+    resetSession();
+    setTestLevel(null);
+    setMode('play');
+  };
+
+  const handlePlayTest = (level: Level) => {
+    resetSession();
+    setTestLevel(level);
+  };
+
+  // While play-testing, Enter returns to the editor
+  useEffect(() => {
+    if (!testLevel) return;
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.code === 'Enter') {
+        e.preventDefault();
+        setPaused(false);
+        setTestLevel(null);
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [testLevel]);
+
+  const isEditing = mode === 'edit' && !testLevel;
+  const coop = lives.length > 1;
+  const totalScore = scores.reduce((sum, s) => sum + s, 0);
+
+  // One player's sack, power-ups and combo: under their name in co-op, in the usual HUD spots alone
+  const renderSack = (player: number) => {
+    const { carried, capacity } = sack[player] ?? { carried: 0, capacity: 0 };
+    if (capacity === 0) return null;
+    return (
+      <div className="flex items-baseline">
+        <span className="text-[8px] md:text-[10px] mr-2 text-gray-300">SACK:</span>
+        <span className={`text-[10px] md:text-xs ${carried >= capacity ? 'text-red-500 animate-pulse' : 'text-white'}`}>
+          {carried}/{capacity}
+        </span>
+      </div>
+    );
+  };
+
+  const renderPowerUps = (player: number) => {
+    const timers = powerUps[player] ?? {};
+    return POWER_UP_HUD.filter(p => timers[p.kind] !== undefined).map(p => (
+      <div key={p.kind} className="flex items-center gap-1">
+        <img src={powerUpIcons[p.kind]} alt="" className="w-4 h-4 md:w-5 md:h-5" style={{ imageRendering: 'pixelated' }} />
+        <span className={`text-[8px] md:text-[10px] ${p.color}`}>{p.label}</span>
+        <span className={`text-[8px] md:text-[10px] text-white ${timers[p.kind]! <= 3 ? 'animate-pulse' : ''}`}>
+          {timers[p.kind]}
+        </span>
+      </div>
+    ));
+  };
+
+  const renderCombo = (player: number) => {
+    const multiplier = combo[player] ?? 1;
+    if (multiplier <= 1) return null;
+    return (
+      <div className="flex items-baseline gap-2">
+        <span className="text-[8px] md:text-[10px] text-yellow-500">COMBO:</span>
+        <span className="text-[10px] md:text-xs text-yellow-300 animate-pulse">x{multiplier}</span>
+      </div>
+    );
+  };
+
+  // Escape or P toggles the pause menu during play
+  useEffect(() => {
+    if (isEditing || isLoading || gameOver || onTitle) return;
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.code === 'Escape' || e.code === 'KeyP') {
+        e.preventDefault();
+        setPaused(prev => !prev);
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [isEditing, isLoading, gameOver, onTitle]);
+
   return (
     <div className="w-full h-screen bg-slate-900 flex items-center justify-center overflow-hidden select-none p-4 pixel-font">
       <div className="relative w-full max-w-5xl h-full max-h-[90vh] flex flex-col items-center justify-center">
         
+        {mode === 'edit' && (
+          <LevelEditor
+            initialLevel={editorStartLevel}
+            active={isEditing}
+            onPlayTest={handlePlayTest}
+            onExit={handleExitEditor}
+          />
+        )}
+
         {/* Aspect Ratio Container */}
+        {!isEditing && (
         <div className="relative w-full aspect-[25/15] bg-[#001133] shadow-2xl border-4 border-slate-700 rounded-lg overflow-hidden">
           
           {isLoading && <LoadingScreen progress={loadingProgress} />}
 
           {/* Game Layer */}
           <GameCanvas 
+            ref={canvasRef}
             onScore={handleScore} 
-            onLives={setLives}
+            onLives={handleLives}
             onGameOver={handleGameOver}
+            onSeed={setSeed}
+            onPlayback={setPlayback}
+            onPause={setPaused}
+            onPowerUps={handlePowerUps}
+            onLevel={setLevelInfo}
+            onBonus={(value: number, hurry: boolean) => setBonus({ value, hurry })}
+            onCombo={handleCombo}
+            onSack={handleSack}
+            onBoss={(health: number, maxHealth: number) => setBoss({ health, maxHealth })}
+            onGamepad={handleGamepad}
             resetTrigger={resetTrigger}
+            paused={paused}
+            campaign={testLevel ? [testLevel] : undefined}
+            seed={urlSeed}
+            players={players}
           />
 
           {/* HUD Layer */}
           <div className="absolute top-0 left-0 w-full p-4 flex justify-between items-start text-white pointer-events-none z-10 retro-shadow">
-             {/* Left side: Lives Only */}
+             {/* Left side: Lives (and each player's score in co-op) */}
              <div className="flex flex-col gap-2">
-               <div className="flex items-center">
-                 <span className="text-[8px] md:text-[10px] mr-2 text-gray-300">LIVES:</span>
-                 <div className="flex gap-1 w-[48px] md:w-[64px] justify-start">
-                   {Array.from({ length: Math.max(0, lives) }).map((_, i) => (
-                     <PixelHeart key={i} className="animate-pulse" />
+               {coop ? (
+                 <div className="flex gap-4">
+                   {PLAYER_HUD.slice(0, lives.length).map((p, player) => (
+                     <div key={p.label} className="flex flex-col gap-1">
+                       <span className={`text-[8px] md:text-[10px] ${p.color}`}>{p.label}</span>
+                       <div className="flex gap-1 h-3 md:h-4">
+                         {lives[player] > 0
+                           ? Array.from({ length: lives[player] }).map((_, i) => <PixelHeart key={i} className="animate-pulse" />)
+                           : <span className="text-[8px] md:text-[10px] text-gray-500">OUT</span>}
+                       </div>
+                       <span className="text-[10px] md:text-xs text-white">{(scores[player] ?? 0).toString().padStart(6, '0')}</span>
+                       {renderSack(player)}
+                       {renderPowerUps(player)}
+                       {renderCombo(player)}
+                     </div>
                    ))}
                  </div>
-               </div>
+               ) : (
+                 <div className="flex items-center">
+                   <span className="text-[8px] md:text-[10px] mr-2 text-gray-300">LIVES:</span>
+                   <div className="flex gap-1 w-[48px] md:w-[64px] justify-start">
+                     {Array.from({ length: Math.max(0, lives[0] ?? 0) }).map((_, i) => (
+                       <PixelHeart key={i} className="animate-pulse" />
+                     ))}
+                   </div>
+                 </div>
+               )}
+               {seed !== null && (
+                 <div className="flex items-baseline">
+                   <span className="text-[8px] mr-2 text-gray-500">SEED:</span>
+                   <span className="text-[8px] text-gray-400">{seed}</span>
+                 </div>
+               )}
+               {!coop && renderSack(0)}
+               {!coop && renderPowerUps(0)}
              </div>
              
              {/* Centered Logo */}
@@ -151,6 +414,20 @@ const App: React.FC = () => {
                  SANTA SCRAMBLE
                </h1>
                <div className="w-full h-1 bg-red-600/30 mt-1 rounded-full"></div>
+               {levelInfo && (
+                 <span className="mt-1 text-[8px] md:text-[10px] text-gray-300">LEVEL {levelInfo.number}</span>
+               )}
+               {boss.maxHealth > 0 && (
+                 <div className="mt-1 flex items-center gap-2">
+                   <span className="text-[8px] md:text-[10px] text-red-500">KRAMPUS</span>
+                   <div className="w-20 md:w-32 h-2 md:h-3 bg-slate-800 border border-white">
+                     <div
+                       className={`h-full bg-red-600 ${boss.health <= 2 ? 'animate-pulse' : ''}`}
+                       style={{ width: `${(boss.health / boss.maxHealth) * 100}%` }}
+                     />
+                   </div>
+                 </div>
+               )}
              </div>
              
              {/* Right side: High Score and Current Score */}
@@ -159,10 +436,21 @@ const App: React.FC = () => {
                  <span className="text-[8px] md:text-[10px] text-yellow-500">HI-SCORE:</span>
                  <span className="text-[10px] md:text-xs text-yellow-400">{highScore.toString().padStart(6, '0')}</span>
                </div>
-               <div className="flex items-baseline gap-2">
-                 <span className="text-[8px] md:text-[10px] text-gray-300">SCORE:</span>
-                 <span className="text-[10px] md:text-xs text-white">{score.toString().padStart(6, '0')}</span>
-               </div>
+               {!coop && (
+                 <div className="flex items-baseline gap-2">
+                   <span className="text-[8px] md:text-[10px] text-gray-300">SCORE:</span>
+                   <span className="text-[10px] md:text-xs text-white">{totalScore.toString().padStart(6, '0')}</span>
+                 </div>
+               )}
+               {!coop && renderCombo(0)}
+               {bonus !== null && (
+                 <div className="flex items-baseline gap-2">
+                   <span className="text-[8px] md:text-[10px] text-gray-300">BONUS:</span>
+                   <span className={`text-[10px] md:text-xs ${bonus.hurry ? 'text-red-500 animate-pulse' : 'text-white'}`}>
+                     {bonus.value.toString().padStart(4, '0')}
+                   </span>
+                 </div>
+               )}
              </div>
           </div>
 
@@ -170,22 +458,197 @@ const App: React.FC = () => {
           {gameOver && (
             <div className="absolute inset-0 bg-black/85 flex flex-col items-center justify-center z-50 text-white">
               <h2 className="text-3xl md:text-5xl font-bold text-red-600 mb-6 tracking-tighter animate-pulse text-center px-4 uppercase">GAME OVER</h2>
-              <p className="text-sm md:text-lg mb-10 text-yellow-400">FINAL SCORE: {score}</p>
+              {coop ? (
+                <div className="mb-10 flex gap-8">
+                  {PLAYER_HUD.slice(0, scores.length).map((p, player) => (
+                    <p key={p.label} className="text-xs md:text-base text-yellow-400">
+                      <span className={p.color}>{p.label}</span> {scores[player]}
+                    </p>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm md:text-lg mb-10 text-yellow-400">FINAL SCORE: {totalScore}</p>
+              )}
               <button 
                 onClick={handleRestart}
                 className="px-8 py-4 bg-green-700 hover:bg-green-600 text-white text-xs md:text-sm font-bold rounded-none shadow-[4px_4px_0_rgb(20,60,20)] active:shadow-none active:translate-y-1 active:translate-x-1 transition-all pointer-events-auto border-2 border-white"
               >
                 TRY AGAIN
               </button>
+              {!playback && (
+                <button
+                  onClick={handleSaveReplay}
+                  className="mt-6 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white text-[8px] md:text-[10px] border-2 border-white pointer-events-auto"
+                >
+                  SAVE REPLAY
+                </button>
+              )}
             </div>
           )}
           
+          {/* Level Intro Card */}
+          {levelInfo?.phase === 'intro' && !isLoading && !gameOver && !onTitle && (
+            <div className="absolute inset-0 bg-black/70 flex flex-col items-center justify-center z-40 text-white pointer-events-none">
+              <h2 className="text-3xl md:text-5xl font-bold text-yellow-400 mb-4 tracking-tighter text-center px-4 uppercase">LEVEL {levelInfo.number}</h2>
+              <p className="text-xs md:text-base mb-8 text-white uppercase">{levelInfo.name}</p>
+              <p className="text-[8px] md:text-[10px] text-gray-400 animate-pulse">GET READY!</p>
+            </div>
+          )}
+
+          {/* Bonus Tally Card */}
+          {levelInfo?.phase === 'clear' && !gameOver && !onTitle && (
+            <div className="absolute inset-0 bg-black/70 flex flex-col items-center justify-center z-40 text-white pointer-events-none">
+              <h2 className="text-3xl md:text-5xl font-bold text-green-500 mb-6 tracking-tighter text-center px-4 uppercase">BOARD CLEAR!</h2>
+              <p className="text-sm md:text-lg mb-2 text-yellow-400">BONUS: {bonus?.value ?? 0}</p>
+              {coop ? (
+                <div className="flex gap-8">
+                  {PLAYER_HUD.slice(0, scores.length).map((p, player) => (
+                    <p key={p.label} className="text-xs md:text-base text-white">
+                      <span className={p.color}>{p.label}</span> {scores[player]}
+                    </p>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm md:text-lg text-white">SCORE: {totalScore}</p>
+              )}
+            </div>
+          )}
+
+          {/* Pause Layer */}
+          {paused && !gameOver && !onTitle && (
+            <div className="absolute inset-0 bg-black/85 flex flex-col items-center justify-center z-50 text-white">
+              <h2 className="text-3xl md:text-5xl font-bold text-yellow-400 mb-10 tracking-tighter animate-pulse text-center px-4 uppercase">PAUSED</h2>
+              <div className="flex flex-col gap-4 w-48 md:w-64">
+                <button
+                  onClick={() => setPaused(false)}
+                  className="px-8 py-4 bg-green-700 hover:bg-green-600 text-white text-xs md:text-sm font-bold rounded-none shadow-[4px_4px_0_rgb(20,60,20)] active:shadow-none active:translate-y-1 active:translate-x-1 transition-all pointer-events-auto border-2 border-white"
+                >
+                  RESUME
+                </button>
+                <button
+                  onClick={handleRestart}
+                  className="px-8 py-4 bg-slate-700 hover:bg-slate-600 text-white text-xs md:text-sm font-bold rounded-none shadow-[4px_4px_0_rgb(20,25,40)] active:shadow-none active:translate-y-1 active:translate-x-1 transition-all pointer-events-auto border-2 border-white"
+                >
+                  RESTART
+                </button>
+                <button
+                  onClick={handleQuit}
+                  className="px-8 py-4 bg-red-800 hover:bg-red-700 text-white text-xs md:text-sm font-bold rounded-none shadow-[4px_4px_0_rgb(60,20,20)] active:shadow-none active:translate-y-1 active:translate-x-1 transition-all pointer-events-auto border-2 border-white"
+                >
+                  {testLevel ? 'QUIT TO EDITOR' : 'QUIT TO TITLE'}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Title Layer */}
+          {onTitle && (
+            <div className="absolute inset-0 bg-black/85 flex flex-col items-center justify-center z-50 text-white">
+              <h2 className="text-3xl md:text-5xl font-bold text-red-600 mb-6 tracking-tighter text-center px-4 uppercase">SANTA SCRAMBLE</h2>
+              <p className="text-sm md:text-lg mb-10 text-yellow-400">HI-SCORE: {highScore}</p>
+              <button
+                onClick={handleStart}
+                className="px-8 py-4 bg-green-700 hover:bg-green-600 text-white text-xs md:text-sm font-bold rounded-none shadow-[4px_4px_0_rgb(20,60,20)] active:shadow-none active:translate-y-1 active:translate-x-1 transition-all pointer-events-auto border-2 border-white animate-pulse"
+              >
+                START
+              </button>
+            </div>
+          )}
+
+          {/* Gamepad Toast */}
+          {gamepadToast && !isLoading && (
+            <div className="absolute bottom-10 left-1/2 -translate-x-1/2 z-[60] px-3 py-2 bg-slate-800 border-2 border-white text-[8px] md:text-[10px] text-white whitespace-nowrap pointer-events-none">
+              <span className={gamepadToast.connected ? 'text-green-400' : 'text-red-400'}>
+                GAMEPAD {gamepadToast.slot + 1} {gamepadToast.connected ? 'CONNECTED' : 'DISCONNECTED'}
+              </span>
+              {gamepadToast.connected && coop && (
+                <span> • {PLAYER_HUD[padPlayer(gamepadToast.slot, lives.length)].label}</span>
+              )}
+            </div>
+          )}
+
           {!gameOver && !isLoading && (
                <div className="absolute bottom-4 left-0 w-full text-center opacity-40 text-[8px] md:text-[10px] text-white pointer-events-none z-10 retro-shadow">
-                  ARROWS TO MOVE • SPACE TO JUMP
+                  {playback
+                    ? (playback.finished ? 'REPLAY ENDED' : `REPLAY • ${playback.paused ? 'PAUSED' : `${playback.speed}X`}`)
+                    : testLevel ? 'PLAY-TEST • ENTER TO EDIT'
+                    : coop ? 'SANTA: WASD + SPACE • MRS. CLAUS: ARROWS + RIGHT SHIFT • ESC TO PAUSE'
+                    : 'ARROWS TO MOVE • SPACE TO JUMP • ESC TO PAUSE'}
                </div>
           )}
         </div>
+        )}
+
+        {mode === 'play' && !isLoading && !playback && (
+          <div className="mt-4 flex gap-2">
+            <button
+              onClick={handleOpenEditor}
+              className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white text-[8px] md:text-[10px] border-2 border-white"
+            >
+              LEVEL EDITOR
+            </button>
+            <button
+              onClick={handleTogglePlayers}
+              className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white text-[8px] md:text-[10px] border-2 border-white"
+            >
+              {players === 1 ? '2 PLAYERS' : '1 PLAYER'}
+            </button>
+            <button
+              onClick={handleSaveReplay}
+              className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white text-[8px] md:text-[10px] border-2 border-white"
+            >
+              SAVE REPLAY
+            </button>
+            <button
+              onClick={() => replayInput.current?.click()}
+              className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white text-[8px] md:text-[10px] border-2 border-white"
+            >
+              LOAD REPLAY
+            </button>
+            <input ref={replayInput} type="file" accept=".json,application/json" className="hidden" onChange={handleLoadReplay} />
+          </div>
+        )}
+
+        {mode === 'play' && replayError && !playback && (
+          <p className="mt-2 text-[8px] text-red-400">{replayError}</p>
+        )}
+
+        {/* Replay Controls */}
+        {mode === 'play' && playback && (
+          <div className="mt-4 flex gap-2">
+            <button
+              onClick={() => canvasRef.current?.setPlaybackPaused(!playback.paused)}
+              disabled={playback.finished}
+              className="px-4 py-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 text-white text-[8px] md:text-[10px] border-2 border-white"
+            >
+              {playback.paused ? 'PLAY' : 'PAUSE'}
+            </button>
+            <button
+              onClick={() => canvasRef.current?.stepPlayback()}
+              disabled={!playback.paused || playback.finished}
+              className="px-4 py-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 text-white text-[8px] md:text-[10px] border-2 border-white"
+            >
+              STEP
+            </button>
+            {[1, 2, 4].map(speed => (
+              <button
+                key={speed}
+                onClick={() => canvasRef.current?.setPlaybackSpeed(speed)}
+                className={`px-4 py-2 text-white text-[8px] md:text-[10px] border-2 border-white ${
+                  playback.speed === speed ? 'bg-green-700' : 'bg-slate-700 hover:bg-slate-600'
+                }`}
+              >
+                {speed}X
+              </button>
+            ))}
+            <button
+              onClick={handleRestart}
+              className="px-4 py-2 bg-red-800 hover:bg-red-700 text-white text-[8px] md:text-[10px] border-2 border-white"
+            >
+              EXIT REPLAY
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
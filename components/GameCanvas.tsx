@@ -1,26 +1,69 @@
 
-import React, { useEffect, useRef } from 'react';
-import { GameEngine } from '../game/GameEngine';
+import React, { forwardRef, useEffect, useImperativeHandle, useRef } from 'react';
+import { GameEngine, LevelInfo, PlaybackState } from '../game/GameEngine';
+import { GamepadNotice } from '../game/InputManager';
+import { Replay } from '../game/Replay';
+import { Level, PowerUpTimers } from '../types';
+
+// Imperative controls for replays; everything else is driven through props
+export type GameCanvasHandle = Pick<
+  GameEngine,
+  'getReplay' | 'playReplay' | 'setPlaybackPaused' | 'setPlaybackSpeed' | 'stepPlayback'
+>;
 
 interface GameCanvasProps {
-  onScore: (score: number) => void;
-  onLives: (lives: number) => void;
+  onScore: (player: number, score: number) => void; // player is 0 for Santa, 1 for Mrs. Claus
+  onLives: (player: number, lives: number) => void;
   onGameOver: () => void;
+  onSeed: (seed: number) => void;
+  onPlayback: (state: PlaybackState | null) => void;
+  onPause: (paused: boolean) => void; // Also fired when the engine pauses itself (tab hidden, window blurred)
+  onPowerUps: (player: number, timers: PowerUpTimers) => void;
+  onLevel: (level: LevelInfo) => void;
+  onBonus: (bonus: number, hurry: boolean) => void;
+  onCombo: (player: number, multiplier: number) => void;
+  onSack: (player: number, carried: number, capacity: number) => void; // capacity is 0 on boards without a sack
+  onBoss: (health: number, maxHealth: number) => void; // maxHealth is 0 on boards without Krampus
+  onGamepad: (notice: GamepadNotice) => void; // A controller was plugged in or removed
   resetTrigger: number; // Increment to reset
+  paused: boolean;
+  campaign?: Level[]; // Overrides the built-in campaign (e.g. editor play-tests)
+  seed?: number; // Fixed RNG seed; a new one is rolled every run when omitted
+  players: number; // 1, or 2 for co-op; takes effect on the next reset
 }
 
-export const GameCanvas: React.FC<GameCanvasProps> = ({ onScore, onLives, onGameOver, resetTrigger }) => {
+export const GameCanvas = forwardRef<GameCanvasHandle, GameCanvasProps>(({
+  onScore, onLives, onGameOver, onSeed, onPlayback, onPause, onPowerUps, onLevel, onBonus, onCombo, onSack, onBoss, onGamepad, resetTrigger, paused, campaign, seed, players
+}, ref) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const engineRef = useRef<GameEngine | null>(null);
 
+  useImperativeHandle(ref, () => ({
+    getReplay: () => engineRef.current!.getReplay(),
+    playReplay: (replay: Replay) => engineRef.current?.playReplay(replay),
+    setPlaybackPaused: (paused: boolean) => engineRef.current?.setPlaybackPaused(paused),
+    setPlaybackSpeed: (speed: number) => engineRef.current?.setPlaybackSpeed(speed),
+    stepPlayback: () => engineRef.current?.stepPlayback()
+  }), []);
+
   useEffect(() => {
     if (!containerRef.current) return;
 
     engineRef.current = new GameEngine(containerRef.current, {
       onScore,
       onLives,
-      onGameOver
-    });
+      onGameOver,
+      onSeed,
+      onPlayback,
+      onPause,
+      onPowerUps,
+      onLevel,
+      onBonus,
+      onCombo,
+      onSack,
+      onBoss,
+      onGamepad
+    }, { campaign, seed, players });
 
     const handleResize = () => {
       if (containerRef.current && engineRef.current) {
@@ -42,9 +85,16 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({ onScore, onLives, onGame
 
   useEffect(() => {
       if (resetTrigger > 0 && engineRef.current) {
-          engineRef.current.reset();
+          engineRef.current.reset(players);
       }
   }, [resetTrigger]);
 
+  // Declared after the reset effect so a run restarted behind a menu stays paused
+  useEffect(() => {
+      if (!engineRef.current) return;
+      if (paused) engineRef.current.pause();
+      else engineRef.current.resume();
+  }, [paused, resetTrigger]);
+
   return <div ref={containerRef} className="absolute inset-0 block bg-black overflow-hidden" />;
-};
+});
@@ -0,0 +1,290 @@
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { SPRITES } from '../constants';
+import { drawSpriteCanvas } from '../utils/assetGenerator';
+import { downloadText } from '../utils/download';
+import {
+  LEVEL_GLYPHS, LevelFormatError, validateLevel, parseLevel, parseLevelText, serializeLevel, toLevelData
+} from '../game/LevelLoader';
+import { Level, LevelData, LevelObjective } from '../types';
+
+// Sprite shown for each glyph in the palette and on the grid
+const GLYPH_SPRITES: Record<string, number[][] | null> = {
+  ' ': null,
+  '#': SPRITES.FLOOR,
+  'I': SPRITES.ICE,
+  '<': SPRITES.CONVEYOR_0.map(row => [...row].reverse()),
+  '>': SPRITES.CONVEYOR_0,
+  'X': SPRITES.CRUMBLE,
+  '-': SPRITES.PLATFORM,
+  'H': SPRITES.LADDER,
+  '@': SPRITES.SANTA_IDLE,
+  'R': SPRITES.REINDEER_0,
+  'S': SPRITES.SNOWMAN,
+  'G': SPRITES.GIFT,
+  'T': SPRITES.TREE_0,
+  'C': SPRITES.CHIMNEY,
+  'V': SPRITES.ICICLE,
+  '^': SPRITES.PUDDLE,
+  'D': SPRITES.GROTTO,
+  'K': SPRITES.KRAMPUS.slice(0, 16).map(row => row.slice(8, 24)), // Just his head
+};
+
+const HISTORY_LIMIT = 100;
+
+interface LevelEditorProps {
+  initialLevel: LevelData;
+  active: boolean; // False while the board is being play-tested
+  onPlayTest: (level: Level) => void;
+  onExit: () => void;
+}
+
+const setGlyph = (map: string[], x: number, y: number, glyph: string): string[] => {
+  if (map[y][x] === glyph) return map;
+  const next = [...map];
+  // Only one spawn point is allowed, so painting '@' moves it
+  if (glyph === '@') {
+    for (let r = 0; r < next.length; r++) {
+      if (next[r].includes('@')) next[r] = next[r].replace('@', ' ');
+    }
+  }
+  next[y] = next[y].slice(0, x) + glyph + next[y].slice(x + 1);
+  return next;
+};
+
+export const LevelEditor: React.FC<LevelEditorProps> = ({ initialLevel, active, onPlayTest, onExit }) => {
+  const [level, setLevel] = useState<LevelData>(initialLevel);
+  // Whole-level snapshots, so undo also restores the name, goal and anything an import replaced
+  const [undoStack, setUndoStack] = useState<LevelData[]>([]);
+  const [redoStack, setRedoStack] = useState<LevelData[]>([]);
+  const [brush, setBrush] = useState('#');
+  const [showText, setShowText] = useState(false);
+  const [text, setText] = useState('');
+  const [importError, setImportError] = useState<string[]>([]);
+  const strokeStart = useRef<LevelData | null>(null);
+  const currentLevel = useRef(level);
+  currentLevel.current = level;
+  const editingField = useRef<string | null>(null); // Field being typed into, so a run of keystrokes is one undo step
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const spriteImages = useMemo(() => {
+    const images: Record<string, string> = {};
+    for (const [glyph, matrix] of Object.entries(GLYPH_SPRITES)) {
+      if (matrix) images[glyph] = drawSpriteCanvas(matrix).toDataURL();
+    }
+    return images;
+  }, []);
+
+  // Validation builds nav graphs, too slow to redo for every cell a drag paints: it waits for the stroke to end
+  const [validated, setValidated] = useState<LevelData>(initialLevel);
+  const issues = useMemo(() => validateLevel(validated), [validated]);
+
+  useEffect(() => {
+    if (!strokeStart.current) setValidated(level);
+  }, [level]);
+
+  const commitHistory = useCallback((previous: LevelData) => {
+    editingField.current = null;
+    setUndoStack(stack => [...stack.slice(-HISTORY_LIMIT + 1), previous]);
+    setRedoStack([]);
+  }, []);
+
+  const editField = (field: string, changes: Partial<LevelData>) => {
+    if (editingField.current !== field) {
+      commitHistory(level);
+      editingField.current = field;
+    }
+    setLevel({ ...level, ...changes });
+  };
+
+  const paint = (x: number, y: number) => {
+    setLevel(current => {
+      const map = setGlyph(current.map, x, y, brush);
+      return map === current.map ? current : { ...current, map };
+    });
+  };
+
+  const beginStroke = (x: number, y: number) => {
+    strokeStart.current = level;
+    paint(x, y);
+  };
+
+  const endStroke = useCallback(() => {
+    const start = strokeStart.current;
+    strokeStart.current = null;
+    if (start && currentLevel.current !== start) commitHistory(start);
+    setValidated(currentLevel.current);
+  }, [commitHistory]);
+
+  const undo = useCallback(() => {
+    if (undoStack.length === 0) return;
+    const previous = undoStack[undoStack.length - 1];
+    editingField.current = null;
+    setUndoStack(stack => stack.slice(0, -1));
+    setRedoStack(stack => [...stack, level]);
+    setLevel(previous);
+  }, [undoStack, level]);
+
+  const redo = useCallback(() => {
+    if (redoStack.length === 0) return;
+    const next = redoStack[redoStack.length - 1];
+    editingField.current = null;
+    setRedoStack(stack => stack.slice(0, -1));
+    setUndoStack(stack => [...stack, level]);
+    setLevel(next);
+  }, [redoStack, level]);
+
+  const playTest = useCallback(() => {
+    if (issues.length === 0) onPlayTest(parseLevel(validated));
+  }, [issues, validated, onPlayTest]);
+
+  const importText = (source: string) => {
+    try {
+      const imported = parseLevelText(source);
+      commitHistory(level);
+      setLevel(toLevelData(imported));
+      setImportError([]);
+      setShowText(false);
+    } catch (err) {
+      setImportError(err instanceof LevelFormatError ? err.issues : [(err as Error).message]);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) importText(await file.text());
+  };
+
+  const handleExport = () => {
+    downloadText(`${level.name.toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'level'}.json`, serializeLevel(level));
+  };
+
+  useEffect(() => {
+    window.addEventListener('mouseup', endStroke);
+    return () => window.removeEventListener('mouseup', endStroke);
+  }, [endStroke]);
+
+  useEffect(() => {
+    if (!active) return;
+    const handleKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+
+      if (e.code === 'Enter') {
+        e.preventDefault();
+        playTest();
+      } else if ((e.ctrlKey || e.metaKey) && e.code === 'KeyZ') {
+        e.preventDefault();
+        if (e.shiftKey) redo(); else undo();
+      } else if ((e.ctrlKey || e.metaKey) && e.code === 'KeyY') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [active, playTest, undo, redo]);
+
+  const buttonClass = 'px-3 py-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 text-white text-[8px] md:text-[10px] border-2 border-white';
+
+  return (
+    <div className={`w-full flex flex-col gap-3 text-white ${active ? '' : 'hidden'}`}>
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          value={level.name}
+          onChange={e => editField('name', { name: e.target.value })}
+          className="bg-slate-800 border-2 border-white px-2 py-2 text-[8px] md:text-[10px] w-48"
+          aria-label="Level name"
+        />
+        <label className="text-[8px] md:text-[10px] text-gray-300 flex items-center gap-1">
+          GIFTS
+          <input
+            type="number" min={1} value={level.gifts.min}
+            onChange={e => editField('giftsMin', { gifts: { ...level.gifts, min: Number(e.target.value) } })}
+            className="bg-slate-800 border-2 border-white px-1 py-1 w-12"
+          />
+          -
+          <input
+            type="number" min={1} value={level.gifts.max}
+            onChange={e => editField('giftsMax', { gifts: { ...level.gifts, max: Number(e.target.value) } })}
+            className="bg-slate-800 border-2 border-white px-1 py-1 w-12"
+          />
+        </label>
+        <label className="text-[8px] md:text-[10px] text-gray-300 flex items-center gap-1">
+          GOAL
+          <select
+            value={level.objective ?? 'collect'}
+            onChange={e => editField('objective', { objective: e.target.value as LevelObjective })}
+            className="bg-slate-800 border-2 border-white px-1 py-1"
+          >
+            <option value="collect">COLLECT</option>
+            <option value="deliver">DELIVER</option>
+            <option value="boss">BOSS</option>
+          </select>
+        </label>
+        <div className="flex-1" />
+        <button className={buttonClass} onClick={undo} disabled={undoStack.length === 0}>UNDO</button>
+        <button className={buttonClass} onClick={redo} disabled={redoStack.length === 0}>REDO</button>
+        <button className={buttonClass} onClick={() => { setText(serializeLevel(level)); setImportError([]); setShowText(!showText); }}>TEXT</button>
+        <button className={buttonClass} onClick={() => fileInput.current?.click()}>IMPORT</button>
+        <button className={buttonClass} onClick={handleExport}>EXPORT</button>
+        <button className={`${buttonClass} bg-green-700 hover:bg-green-600`} onClick={playTest} disabled={issues.length > 0}>PLAY-TEST</button>
+        <button className={`${buttonClass} bg-red-800 hover:bg-red-700`} onClick={onExit}>QUIT</button>
+        <input ref={fileInput} type="file" accept=".json,application/json,text/plain" className="hidden" onChange={handleFile} />
+      </div>
+
+      {/* Tile Palette */}
+      <div className="flex flex-wrap gap-2">
+        {Object.entries(LEVEL_GLYPHS).map(([glyph, label]) => (
+          <button
+            key={glyph}
+            onClick={() => setBrush(glyph)}
+            className={`flex items-center gap-2 px-2 py-1 border-2 text-[8px] ${brush === glyph ? 'border-yellow-400 bg-slate-700' : 'border-slate-600'}`}
+          >
+            <span
+              className="w-6 h-6 bg-[#001133] bg-contain"
+              style={{ backgroundImage: spriteImages[glyph] ? `url(${spriteImages[glyph]})` : undefined, imageRendering: 'pixelated' }}
+            />
+            {label.toUpperCase()}
+          </button>
+        ))}
+      </div>
+
+      {/* Board */}
+      <div
+        className="relative w-full aspect-[25/15] grid bg-[#001133] border-4 border-slate-700 select-none"
+        style={{ gridTemplateColumns: `repeat(${level.map[0]?.length ?? 0}, 1fr)` }}
+        onMouseLeave={endStroke}
+      >
+        {level.map.map((row, y) => Array.from(row).map((glyph, x) => (
+          <div
+            key={`${x},${y}`}
+            onMouseDown={e => { e.preventDefault(); beginStroke(x, y); }}
+            onMouseEnter={() => { if (strokeStart.current) paint(x, y); }}
+            className="border border-[#051A45] hover:border-yellow-400 bg-contain cursor-crosshair"
+            style={{ backgroundImage: spriteImages[glyph] ? `url(${spriteImages[glyph]})` : undefined, imageRendering: 'pixelated' }}
+          />
+        )))}
+      </div>
+
+      {showText && (
+        <div className="flex flex-col gap-2">
+          <textarea
+            value={text}
+            onChange={e => setText(e.target.value)}
+            spellCheck={false}
+            className="bg-slate-800 border-2 border-white p-2 h-48 text-[10px] font-mono"
+          />
+          <button className={buttonClass} onClick={() => importText(text)}>APPLY TEXT</button>
+          {importError.map(issue => <p key={issue} className="text-[8px] text-red-400">{issue}</p>)}
+        </div>
+      )}
+
+      <div className="text-[8px] md:text-[10px] min-h-[1rem]">
+        {issues.length === 0
+          ? <span className="text-green-400">BOARD OK • ENTER TO PLAY-TEST</span>
+          : issues.map(issue => <p key={issue} className="text-red-400">{issue}</p>)}
+      </div>
+    </div>
+  );
+};
@@ -8,6 +8,15 @@ export const MOVE_SPEED = 120;
 export const CLIMB_SPEED = 80;
 export const ENEMY_SPEED = 60;
 
+// Death sequence: everything holds still, then Santa tumbles off screen and respawns blinking
+export const DEATH_FREEZE = 0.6; // seconds
+export const DEATH_DURATION = 2; // seconds, including the freeze
+export const INVULNERABLE_TIME = 2.5; // seconds after respawning
+
+// Simulation runs at a fixed rate regardless of display refresh rate
+export const FIXED_TIMESTEP = 1 / 120; // seconds per simulation step
+export const MAX_FRAME_TIME = 0.25; // longest frame we try to catch up on (avoids a spiral after tab switches)
+
 export const COLORS = {
   BACKGROUND: '#001133', // Deep arcade blue
   WHITE: '#FFFFFF',
@@ -232,6 +241,120 @@ export const SPRITES = {
     [0,2,2,2,2,2,2,2,2,2,2,2,2,2,0,0],
     [0,0,2,2,2,2,2,2,2,2,2,2,2,0,0,0],
   ],
+  // SNOWMAN_THROW: arm raised with a snowball, shown while winding up a throw
+  SNOWMAN_THROW: [
+    [0,0,0,0,0,5,5,5,5,5,0,0,0,0,0,0],
+    [0,0,0,0,0,5,5,5,5,5,0,0,0,0,0,0],
+    [0,0,0,5,5,5,5,5,5,5,5,5,0,0,0,0],
+    [0,0,0,0,2,2,2,2,2,2,2,0,0,0,0,0],
+    [0,0,0,2,2,2,2,2,2,2,2,2,0,2,2,0],
+    [0,0,0,2,2,5,2,2,2,5,2,2,2,2,2,2],
+    [0,0,0,2,2,2,2,6,2,2,2,2,0,2,2,0],
+    [0,0,0,2,2,2,6,6,6,2,2,2,0,5,0,0],
+    [0,0,0,0,2,2,2,2,2,2,2,0,5,0,0,0],
+    [0,0,5,0,0,2,2,2,2,2,0,5,0,0,0,0],
+    [0,0,0,5,2,2,2,5,2,2,2,5,0,0,0,0],
+    [0,0,0,2,2,2,2,2,2,2,2,2,0,0,0,0],
+    [0,0,2,2,2,2,2,2,2,2,2,2,2,0,0,0],
+    [0,2,2,2,2,2,2,2,2,2,2,2,2,2,0,0],
+    [0,2,2,2,2,2,2,2,2,2,2,2,2,2,0,0],
+    [0,0,2,2,2,2,2,2,2,2,2,2,2,0,0,0],
+  ],
+  // SNOWBALL: 2:White, 9:Blue (shading). Only the middle 6x6 is drawn, matching its hitbox
+  SNOWBALL: [
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,2,2,2,2,0,0,0,0,0,0],
+    [0,0,0,0,0,2,2,2,2,2,2,0,0,0,0,0],
+    [0,0,0,0,0,2,2,2,2,2,2,0,0,0,0,0],
+    [0,0,0,0,0,2,2,2,2,2,9,0,0,0,0,0],
+    [0,0,0,0,0,2,2,2,2,9,9,0,0,0,0,0],
+    [0,0,0,0,0,0,9,9,9,9,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+  ],
+  // POWERUP_HAMMER: candy-cane hammer. 1:Red, 2:White
+  POWERUP_HAMMER: [
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,1,1,2,2,1,1,2,2,1,1,2,2,0,0],
+    [0,0,1,1,2,2,1,1,2,2,1,1,2,2,0,0],
+    [0,0,2,2,1,1,2,2,1,1,2,2,1,1,0,0],
+    [0,0,2,2,1,1,2,2,1,1,2,2,1,1,0,0],
+    [0,0,0,0,0,0,0,1,1,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,2,2,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,1,1,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,2,2,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,1,1,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,2,2,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,1,1,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,2,2,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,1,1,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,2,2,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,1,1,0,0,0,0,0,0,0],
+  ],
+  // POWERUP_COCOA: steaming mug. 1:Red, 2:White, 3:Brown
+  POWERUP_COCOA: [
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,2,0,0,2,0,0,0,0,0,0,0],
+    [0,0,0,0,2,0,0,2,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,2,0,0,2,0,0,0,0,0,0,0],
+    [0,0,0,0,2,0,0,2,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,2,2,2,2,2,2,2,2,2,0,0,0,0,0],
+    [0,0,1,3,3,3,3,3,3,3,1,0,0,0,0,0],
+    [0,0,1,1,1,1,1,1,1,1,1,1,1,0,0,0],
+    [0,0,1,2,1,1,1,1,1,1,1,0,0,1,0,0],
+    [0,0,1,2,1,1,1,1,1,1,1,0,0,1,0,0],
+    [0,0,1,1,1,1,1,1,1,1,1,0,0,1,0,0],
+    [0,0,1,1,1,1,1,1,1,1,1,1,1,0,0,0],
+    [0,0,1,1,1,1,1,1,1,1,1,0,0,0,0,0],
+    [0,0,0,1,1,1,1,1,1,1,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+  ],
+  // POWERUP_SHIELD: snowflake shield. 2:White, 9:Blue, 12:Teal
+  POWERUP_SHIELD: [
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,9,9,9,9,9,9,9,9,9,9,9,9,0,0],
+    [0,0,9,12,12,12,12,12,12,12,12,12,12,9,0,0],
+    [0,0,9,12,12,12,12,2,2,12,12,12,12,9,0,0],
+    [0,0,9,12,2,12,12,2,2,12,12,2,12,9,0,0],
+    [0,0,9,12,12,2,12,2,2,12,2,12,12,9,0,0],
+    [0,0,9,12,2,2,2,2,2,2,2,2,12,9,0,0],
+    [0,0,9,12,2,2,2,2,2,2,2,2,12,9,0,0],
+    [0,0,9,12,12,2,12,2,2,12,2,12,12,9,0,0],
+    [0,0,0,9,2,12,12,2,2,12,12,2,9,0,0,0],
+    [0,0,0,9,12,12,12,2,2,12,12,12,9,0,0,0],
+    [0,0,0,0,9,12,12,12,12,12,12,9,0,0,0,0],
+    [0,0,0,0,0,9,12,12,12,12,9,0,0,0,0,0],
+    [0,0,0,0,0,0,9,12,12,9,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,9,9,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+  ],
+  // CHIMNEY: brick stack with a snow cap. 1:Red, 2:White, 3:Brown (mortar)
+  CHIMNEY: [
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,2,2,2,2,2,0,0,0,0,0,0],
+    [0,0,0,2,2,2,2,2,2,2,2,2,2,0,0,0],
+    [0,0,2,2,2,2,2,2,2,2,2,2,2,2,0,0],
+    [0,0,1,1,1,3,1,1,1,3,1,1,1,3,0,0],
+    [0,0,3,3,3,3,3,3,3,3,3,3,3,3,0,0],
+    [0,0,0,1,1,3,1,1,1,3,1,1,1,0,0,0],
+    [0,0,0,1,1,3,1,1,1,3,1,1,1,0,0,0],
+    [0,0,0,3,3,3,3,3,3,3,3,3,3,0,0,0],
+    [0,0,0,1,1,1,3,1,1,1,3,1,1,0,0,0],
+    [0,0,0,1,1,1,3,1,1,1,3,1,1,0,0,0],
+    [0,0,0,3,3,3,3,3,3,3,3,3,3,0,0,0],
+    [0,0,0,1,1,3,1,1,1,3,1,1,1,0,0,0],
+    [0,0,0,1,1,3,1,1,1,3,1,1,1,0,0,0],
+    [0,0,0,3,3,3,3,3,3,3,3,3,3,0,0,0],
+  ],
   // GIFT: 1:Red (Variable), 2:White (Ribbon/Box)
 GIFT: [
     [0,0,0,0,0,2,2,0,0,2,2,0,0,0,0,0],
@@ -308,6 +431,303 @@ FLOOR: [
     [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
     [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
 ],
+  // ICE: slippery block. 2:White, 9:Blue, 12:Teal
+  ICE: [
+    [2,2,2,2,2,2,2,2,2,2,2,2,2,2,2,2],
+    [2,12,12,2,12,12,12,12,12,12,12,2,12,12,12,2],
+    [12,2,12,12,12,12,2,12,12,12,12,12,2,12,12,12],
+    [12,12,12,12,12,12,2,12,12,12,12,12,12,2,12,12],
+    [12,12,12,2,12,12,12,12,12,12,2,12,12,12,12,12],
+    [12,12,2,12,12,12,12,12,12,12,2,12,12,12,12,12],
+    [12,12,12,12,12,12,12,2,12,12,12,12,12,12,2,12],
+    [12,12,12,12,2,12,12,2,12,12,12,2,12,12,2,12],
+    [12,12,12,12,2,12,12,12,12,12,12,2,12,12,12,12],
+    [12,2,12,12,12,12,12,12,2,12,12,12,12,12,12,12],
+    [12,2,12,12,12,12,12,2,12,12,12,12,12,2,12,12],
+    [12,12,12,12,12,2,12,12,12,12,12,12,12,2,12,12],
+    [12,12,12,2,12,2,12,12,12,12,2,12,12,12,12,12],
+    [12,12,12,2,12,12,12,12,12,12,12,2,12,12,12,12],
+    [9,12,12,12,12,12,12,12,2,12,12,12,12,12,12,9],
+    [9,9,9,9,9,9,9,9,9,9,9,9,9,9,9,9],
+  ],
+  // CONVEYOR: belt moving right (mirrored for '<'), two frames. 2:White, 5:Black, 8:Dark Tile Blue, 11:Yellow
+  CONVEYOR_0: [
+    [5,5,5,5,5,5,5,5,5,5,5,5,5,5,5,5],
+    [5,2,2,2,2,2,2,2,2,2,2,2,2,2,2,5],
+    [5,8,8,11,8,8,8,8,8,8,8,11,8,8,8,5],
+    [5,8,8,8,11,8,8,8,8,8,8,8,11,8,8,5],
+    [5,8,8,8,8,11,8,8,8,8,8,8,8,11,8,5],
+    [5,8,8,8,11,8,8,8,8,8,8,8,11,8,8,5],
+    [5,8,8,11,8,8,8,8,8,8,8,11,8,8,8,5],
+    [5,2,2,2,2,2,2,2,2,2,2,2,2,2,2,5],
+    [5,5,5,5,5,5,5,5,5,5,5,5,5,5,5,5],
+    [5,5,8,8,8,5,8,8,8,5,8,8,8,5,8,5],
+    [5,5,2,8,8,5,2,8,8,5,2,8,8,5,2,5],
+    [5,5,2,8,8,5,2,8,8,5,2,8,8,5,2,5],
+    [5,5,2,8,8,5,2,8,8,5,2,8,8,5,2,5],
+    [5,5,8,8,8,5,8,8,8,5,8,8,8,5,8,5],
+    [5,5,5,5,5,5,5,5,5,5,5,5,5,5,5,5],
+    [5,5,5,5,5,5,5,5,5,5,5,5,5,5,5,5],
+  ],
+  CONVEYOR_1: [
+    [5,5,5,5,5,5,5,5,5,5,5,5,5,5,5,5],
+    [5,2,2,2,2,2,2,2,2,2,2,2,2,2,2,5],
+    [5,8,8,8,8,11,8,8,8,8,8,8,8,11,8,5],
+    [5,8,8,8,8,8,11,8,8,8,8,8,8,8,11,5],
+    [5,8,8,8,8,8,8,11,8,8,8,8,8,8,8,5],
+    [5,8,8,8,8,8,11,8,8,8,8,8,8,8,11,5],
+    [5,8,8,8,8,11,8,8,8,8,8,8,8,11,8,5],
+    [5,2,2,2,2,2,2,2,2,2,2,2,2,2,2,5],
+    [5,5,5,5,5,5,5,5,5,5,5,5,5,5,5,5],
+    [5,8,8,5,8,8,8,5,8,8,8,5,8,8,8,5],
+    [5,8,8,5,2,8,8,5,2,8,8,5,2,8,8,5],
+    [5,8,8,5,2,8,8,5,2,8,8,5,2,8,8,5],
+    [5,8,8,5,2,8,8,5,2,8,8,5,2,8,8,5],
+    [5,8,8,5,8,8,8,5,8,8,8,5,8,8,8,5],
+    [5,5,5,5,5,5,5,5,5,5,5,5,5,5,5,5],
+    [5,5,5,5,5,5,5,5,5,5,5,5,5,5,5,5],
+  ],
+  // CRUMBLE: cracked snow block. 2:White, 8:Dark Tile Blue
+  CRUMBLE: [
+    [2,2,2,2,2,2,2,2,2,2,2,2,2,2,2,2],
+    [2,2,2,2,2,2,2,2,2,2,2,2,2,2,2,2],
+    [2,2,2,2,8,2,2,2,2,2,2,2,2,2,2,2],
+    [2,2,2,8,2,2,2,2,2,2,2,8,2,2,2,2],
+    [2,2,8,2,2,2,2,2,2,2,8,2,2,2,2,2],
+    [2,2,2,2,2,2,2,2,2,8,2,2,2,2,2,2],
+    [8,8,8,8,8,8,8,8,8,8,8,8,8,8,8,8],
+    [2,2,2,2,2,2,2,8,2,2,2,2,2,2,2,2],
+    [2,2,2,2,2,2,8,2,2,2,2,2,2,2,2,2],
+    [2,2,2,2,2,8,2,2,2,2,2,2,2,2,8,2],
+    [8,8,8,8,8,8,8,8,8,8,8,8,8,8,8,8],
+    [2,2,2,2,2,2,2,2,2,2,8,2,2,2,2,2],
+    [2,2,8,2,2,2,2,2,2,8,2,2,2,2,2,2],
+    [2,2,2,8,2,2,2,2,2,2,2,2,2,2,2,2],
+    [8,8,8,8,8,8,8,8,8,8,8,8,8,8,8,8],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+  ],
+  // PLATFORM: thin one-way plank with snow on top. 2:White, 3:Brown
+  PLATFORM: [
+    [2,2,2,2,2,2,2,2,2,2,2,2,2,2,2,2],
+    [2,2,2,2,2,2,2,2,2,2,2,2,2,2,2,2],
+    [3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3],
+    [3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3],
+    [0,3,3,0,0,0,0,0,0,0,0,0,0,3,3,0],
+    [0,0,3,3,0,0,0,0,0,0,0,0,3,3,0,0],
+    [0,0,0,3,3,0,0,0,0,0,0,3,3,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+  ],
+  // SLED: one tile of a horizontal moving platform, top half only (repeated along its width). 1:Red, 2:White, 3:Brown, 5:Black
+  SLED: [
+    [2,2,2,2,2,2,2,2,2,2,2,2,2,2,2,2],
+    [3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3],
+    [3,5,5,3,3,3,3,5,5,3,3,3,3,3,5,5],
+    [3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3],
+    [1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1],
+    [0,0,5,0,0,0,0,0,0,0,0,5,0,0,0,0],
+    [0,0,5,0,0,0,0,0,0,0,0,5,0,0,0,0],
+    [5,5,5,5,5,5,5,5,5,5,5,5,5,5,5,5],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+  ],
+  // ELEVATOR: one tile of a vertical moving platform, top half only. 5:Black, 8:Dark Tile Blue, 9:Blue, 11:Yellow
+  ELEVATOR: [
+    [9,9,9,9,9,9,9,9,9,9,9,9,9,9,9,9],
+    [11,5,5,11,11,5,5,11,11,5,5,11,11,5,5,11],
+    [5,11,11,5,5,11,11,5,5,11,11,5,5,11,11,5],
+    [9,9,9,9,9,9,9,9,9,9,9,9,9,9,9,9],
+    [8,8,8,8,8,8,8,8,8,8,8,8,8,8,8,8],
+    [8,0,0,0,0,0,0,0,0,0,0,0,0,0,8,0],
+    [9,9,9,9,9,9,9,9,9,9,9,9,9,9,9,9],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+  ],
+  // ICICLE: hangs from the tile above, tip pointing down. 2:White, 9:Blue, 12:Teal
+  ICICLE: [
+    [0,0,0,2,2,2,2,2,2,2,2,2,2,0,0,0],
+    [0,0,0,0,2,12,2,12,12,2,12,2,0,0,0,0],
+    [0,0,0,0,0,12,2,12,12,2,12,0,0,0,0,0],
+    [0,0,0,0,0,12,2,12,12,9,12,0,0,0,0,0],
+    [0,0,0,0,0,12,2,12,12,9,0,0,0,0,0,0],
+    [0,0,0,0,0,0,2,12,12,9,0,0,0,0,0,0],
+    [0,0,0,0,0,0,2,12,12,9,0,0,0,0,0,0],
+    [0,0,0,0,0,0,2,12,9,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,2,9,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,2,9,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,2,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,2,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+  ],
+  // PUDDLE: frozen puddle with ice spikes, sits on the floor below. 2:White, 9:Blue, 12:Teal
+  PUDDLE: [
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,2,0,0,0,0,0,2,0,0,0,0,0,0,0],
+    [0,0,2,0,0,2,0,0,2,0,0,0,2,0,0,0],
+    [0,2,12,0,0,2,0,2,12,0,0,2,12,0,0,0],
+    [0,2,12,2,0,12,2,2,12,2,0,2,12,2,0,0],
+    [9,12,12,12,12,12,12,12,12,12,12,12,12,12,12,9],
+    [9,9,9,9,9,9,9,9,9,9,9,9,9,9,9,9],
+  ],
+  // GROTTO: snowy grotto door that releases enemies. 2:White, 3:Brown, 5:Black, 11:Yellow
+  GROTTO: [
+    [0,0,0,0,2,2,2,2,2,2,2,2,0,0,0,0],
+    [0,0,2,2,2,5,5,5,5,5,5,2,2,2,0,0],
+    [0,2,2,2,3,3,5,3,3,5,3,3,2,2,2,0],
+    [0,2,2,3,3,3,5,3,3,5,3,3,3,2,2,0],
+    [0,2,2,3,3,3,5,3,3,5,3,3,3,2,2,0],
+    [0,2,2,3,3,3,5,3,3,5,3,3,3,2,2,0],
+    [0,2,2,3,3,3,5,3,3,5,3,3,3,2,2,0],
+    [0,2,2,3,3,3,5,3,3,5,3,3,3,2,2,0],
+    [0,2,2,3,3,3,5,3,3,5,3,3,3,2,2,0],
+    [0,2,2,3,3,3,5,3,3,5,3,11,3,2,2,0],
+    [0,2,2,3,3,3,5,3,3,5,3,3,3,2,2,0],
+    [0,2,2,3,3,3,5,3,3,5,3,3,3,2,2,0],
+    [0,2,2,3,3,3,5,3,3,5,3,3,3,2,2,0],
+    [0,2,2,3,3,3,5,3,3,5,3,3,3,2,2,0],
+    [0,2,2,3,3,3,5,3,3,5,3,3,3,2,2,0],
+    [0,2,2,3,3,3,5,3,3,5,3,3,3,2,2,0],
+  ],
+  // GROTTO_OPEN: the door swung open, glowing eyes inside. 2:White, 5:Black, 6:Orange, 11:Yellow
+  GROTTO_OPEN: [
+    [0,0,0,0,2,2,2,2,2,2,2,2,0,0,0,0],
+    [0,0,2,2,2,6,5,5,5,5,6,2,2,2,0,0],
+    [0,2,2,2,6,5,5,5,5,5,5,6,2,2,2,0],
+    [0,2,2,6,5,5,5,5,5,5,5,5,6,2,2,0],
+    [0,2,2,6,5,5,5,5,5,5,5,5,6,2,2,0],
+    [0,2,2,6,5,5,5,5,5,5,5,5,6,2,2,0],
+    [0,2,2,6,5,5,5,5,5,5,5,5,6,2,2,0],
+    [0,2,2,6,5,5,11,5,5,11,5,5,6,2,2,0],
+    [0,2,2,6,5,5,5,5,5,5,5,5,6,2,2,0],
+    [0,2,2,6,5,5,5,5,5,5,5,5,6,2,2,0],
+    [0,2,2,6,5,5,5,5,5,5,5,5,6,2,2,0],
+    [0,2,2,6,5,5,5,5,5,5,5,5,6,2,2,0],
+    [0,2,2,6,5,5,5,5,5,5,5,5,6,2,2,0],
+    [0,2,2,6,5,5,5,5,5,5,5,5,6,2,2,0],
+    [0,2,2,6,5,5,5,5,5,5,5,5,6,2,2,0],
+    [0,2,2,6,5,5,5,5,5,5,5,5,6,2,2,0],
+  ],
+  // KRAMPUS: 32x48, two tiles wide and three high. 1:Red, 2:White, 3:Brown, 5:Black, 8:Dark Tile Blue (chain), 11:Yellow, 13:Pink
+  KRAMPUS: [
+    [0,0,2,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,2,0,0],
+    [0,0,2,2,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,2,2,0,0],
+    [0,0,0,2,3,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,3,2,0,0,0],
+    [0,0,0,3,3,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,3,3,0,0,0],
+    [0,0,0,0,3,3,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,3,3,0,0,0,0],
+    [0,0,0,0,3,3,3,0,0,0,5,5,5,5,5,5,5,5,5,5,5,5,0,0,0,3,3,3,0,0,0,0],
+    [0,0,0,0,0,3,3,3,5,5,3,3,3,3,3,3,3,3,3,3,3,3,5,5,3,3,3,0,0,0,0,0],
+    [0,0,0,0,0,0,3,5,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,5,3,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,5,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,5,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,5,3,1,1,3,3,3,3,3,3,3,3,3,3,1,1,3,5,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,5,3,1,11,3,3,3,3,3,3,3,3,3,3,11,1,3,5,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,5,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,5,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,5,3,3,3,3,3,5,3,3,3,3,5,3,3,3,3,3,5,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,5,3,3,3,3,2,3,3,3,3,2,3,3,3,3,5,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,5,3,3,2,5,5,5,5,5,5,5,5,2,3,3,5,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,5,3,3,5,13,13,13,13,13,13,5,3,3,5,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,5,5,5,13,13,13,13,13,13,5,5,5,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,5,5,5,5,3,3,3,5,13,13,13,13,5,3,3,3,5,5,5,5,0,0,0,0,0,0],
+    [0,0,0,0,5,5,3,3,3,3,3,3,3,3,5,13,13,5,3,3,3,3,3,3,3,3,5,5,0,0,0,0],
+    [0,0,0,5,3,3,3,3,3,3,3,3,3,3,3,13,13,3,3,3,3,3,3,3,3,3,3,3,5,0,0,0],
+    [0,0,5,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,5,0,0],
+    [0,0,5,3,3,5,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,5,3,3,5,0,0],
+    [0,5,3,3,3,5,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,5,3,3,3,5,0],
+    [0,5,3,3,5,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,5,3,3,5,0],
+    [0,5,3,3,5,3,3,3,3,3,3,8,8,3,3,3,3,3,3,8,8,3,3,3,3,3,3,5,3,3,5,0],
+    [0,5,3,3,5,3,3,3,3,3,8,8,3,3,3,3,3,3,3,3,8,8,3,3,3,3,3,5,3,3,5,0],
+    [0,5,3,3,5,3,3,3,3,8,8,3,3,3,3,3,3,3,3,3,3,8,8,3,3,3,3,5,3,3,5,0],
+    [0,5,3,3,5,3,3,3,8,8,3,3,3,3,3,3,3,3,3,3,3,3,8,8,3,3,3,5,3,3,5,0],
+    [0,5,3,3,3,5,3,8,8,3,3,3,3,3,3,3,3,3,3,3,3,3,3,8,8,3,5,3,3,3,5,0],
+    [0,5,5,3,3,5,8,8,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,8,8,5,3,3,5,5,0],
+    [0,5,3,5,3,5,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,5,3,5,3,5,0],
+    [0,5,2,5,2,5,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,5,2,5,2,5,0],
+    [0,0,5,0,5,0,5,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,5,0,5,0,5,0,0],
+    [0,0,0,0,0,0,5,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,5,0,0,0,0,0,0],
+    [0,0,0,0,0,0,5,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,5,0,0,0,0,0,0],
+    [0,0,0,0,0,0,5,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,3,5,0,0,0,0,0,0],
+    [0,0,0,0,0,0,5,3,3,3,3,3,5,5,5,5,5,5,5,5,3,3,3,3,3,5,0,0,0,0,0,0],
+    [0,0,0,0,0,0,5,3,3,3,3,3,5,0,0,0,0,0,0,5,3,3,3,3,3,5,0,0,0,0,0,0],
+    [0,0,0,0,0,0,5,3,3,3,3,3,5,0,0,0,0,0,0,5,3,3,3,3,3,5,0,0,0,0,0,0],
+    [0,0,0,0,0,0,5,3,3,3,3,3,5,0,0,0,0,0,0,5,3,3,3,3,3,5,0,0,0,0,0,0],
+    [0,0,0,0,0,0,5,3,3,3,3,5,0,0,0,0,0,0,0,0,5,3,3,3,3,5,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,5,3,3,3,5,0,0,0,0,0,0,0,0,5,3,3,3,5,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,5,3,3,3,5,0,0,0,0,0,0,0,0,5,3,3,3,5,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,5,3,3,3,5,0,0,0,0,0,0,0,0,5,3,3,3,5,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,5,5,5,5,5,5,0,0,0,0,0,0,0,0,5,5,5,5,5,5,0,0,0,0,0,0],
+    [0,0,0,0,0,5,5,5,5,5,5,5,0,0,0,0,0,0,0,0,5,5,5,5,5,5,5,0,0,0,0,0],
+    [0,0,0,0,0,5,5,5,5,5,5,5,0,0,0,0,0,0,0,0,5,5,5,5,5,5,5,0,0,0,0,0],
+    [0,0,0,0,0,5,5,5,5,5,5,5,0,0,0,0,0,0,0,0,5,5,5,5,5,5,5,0,0,0,0,0],
+  ],
+  // COAL: lump of glowing coal thrown by Krampus. 5:Black, 6:Orange. Same 6x6 footprint as the snowball
+  COAL: [
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,5,5,5,5,0,0,0,0,0,0],
+    [0,0,0,0,0,5,5,6,5,5,5,0,0,0,0,0],
+    [0,0,0,0,0,5,5,5,5,5,5,0,0,0,0,0],
+    [0,0,0,0,0,5,5,5,5,6,5,0,0,0,0,0],
+    [0,0,0,0,0,5,6,5,5,5,5,0,0,0,0,0],
+    [0,0,0,0,0,0,5,5,5,5,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+  ],
+  // SHOCKWAVE: burst of snow rolling along the floor. 2:White, 9:Blue. Only rows 4-11 are drawn, matching its 8px hitbox
+  SHOCKWAVE: [
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,2,0,0,0,0,0,0,0,2,0,0,0,0,0],
+    [0,0,2,2,0,0,0,0,2,0,2,2,0,0,2,0],
+    [0,2,2,2,0,0,0,2,2,0,2,2,2,0,2,0],
+    [0,2,2,2,2,0,2,2,2,2,2,2,2,0,2,2],
+    [2,2,9,2,2,2,2,2,9,2,2,2,2,2,2,2],
+    [2,2,2,2,2,2,2,2,2,2,2,9,2,2,2,2],
+    [9,2,2,2,9,2,2,2,2,2,2,2,2,2,9,2],
+    [9,9,2,9,9,9,2,2,9,9,2,9,9,9,9,9],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+    [0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0],
+  ],
   // LADDER: 2:White
   LADDER: [
     [0,0,2,2,0,0,0,0,0,0,0,0,2,2,0,0],
@@ -328,3 +748,20 @@ FLOOR: [
     [0,0,2,2,0,0,0,0,0,0,0,0,2,2,0,0],
   ]
 };
+
+// 3x5 bitmap font for in-world score popups ('1' = lit pixel)
+export const PIXEL_FONT: Record<string, string[]> = {
+  '0': ['111', '101', '101', '101', '111'],
+  '1': ['010', '110', '010', '010', '111'],
+  '2': ['111', '001', '111', '100', '111'],
+  '3': ['111', '001', '111', '001', '111'],
+  '4': ['101', '101', '111', '001', '001'],
+  '5': ['111', '100', '111', '001', '111'],
+  '6': ['111', '100', '111', '101', '111'],
+  '7': ['111', '001', '001', '001', '001'],
+  '8': ['111', '101', '111', '101', '111'],
+  '9': ['111', '101', '111', '001', '111'],
+  '+': ['000', '010', '111', '010', '000'],
+  'x': ['000', '101', '010', '101', '000'],
+  ' ': ['000', '000', '000', '000', '000']
+};
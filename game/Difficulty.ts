@@ -0,0 +1,43 @@
+import { EnemyProfile } from './EnemyAI';
+
+/**
+ * How much harder a board gets the further into the run it is played.
+ * Level 1 is the baseline; the campaign loops, so the curve keeps climbing until each value hits its cap.
+ */
+export interface Difficulty {
+  enemySpeed: number; // Multiplier on the board's enemySpeed
+  chaseRadius: number; // Extra route length enemies will still chase over
+  aggression: number; // Added to each hunting enemy's aggression
+  extraEnemies: number; // Reindeer spawned on top of the ones in the map
+  extraGifts: number; // Added to the board's gift range
+  giftValue: number; // Multiplier on each gift colour's points
+  startBonus: number; // Bonus at the start of the board; drains to 0 over timeLimit
+  timeLimit: number; // Seconds to clear the board before losing a life
+}
+
+/** The most extraGifts ever gets; level validation makes sure every board has room for that many more. */
+export const MAX_EXTRA_GIFTS = 4;
+
+export const difficultyForLevel = (levelNumber: number): Difficulty => {
+  const tier = Math.max(0, levelNumber - 1);
+  return {
+    enemySpeed: Math.min(1 + tier * 0.08, 1.6),
+    chaseRadius: Math.min(tier * 2, 10),
+    aggression: Math.min(tier * 0.05, 0.2),
+    extraEnemies: Math.min(Math.floor(tier / 2), 4),
+    extraGifts: Math.min(tier, MAX_EXTRA_GIFTS),
+    giftValue: 1 + tier * 0.5,
+    startBonus: 3000 + tier * 500,
+    timeLimit: Math.max(45, 90 - tier * 5)
+  };
+};
+
+/** Applies the curve to an enemy profile. Types that never hunt (aggression 0) stay that way. */
+export const scaleProfile = (profile: EnemyProfile, difficulty: Difficulty): EnemyProfile => {
+  if (profile.aggression === 0) return profile;
+  return {
+    ...profile,
+    aggression: Math.min(1, profile.aggression + difficulty.aggression),
+    chaseRadius: profile.chaseRadius + difficulty.chaseRadius
+  };
+};
@@ -0,0 +1,219 @@
+import { TILE_SIZE } from '../constants';
+import { EntityType, Rect } from '../types';
+import { NavEdge, NavGraph, NavMove } from './NavGraph';
+import { Random } from './Random';
+
+/** How an enemy type hunts. Tuned per type so boards mix relentless and lazy enemies. */
+export interface EnemyProfile {
+  aggression: number; // 0..1, chance on each re-plan to hunt a player within range instead of patrolling
+  chaseRadius: number; // Longest route to the player (in moves) still worth chasing
+  climbChance: number; // 0..1, chance a patrolling enemy takes a ladder it walks past
+  chaseSpeed: number; // Speed multiplier while hunting
+  walkSpeed: number; // Speed multiplier while patrolling
+  stompable: boolean; // Can be defeated by landing on it
+  replanInterval: number; // Seconds between route searches
+}
+
+export const ENEMY_PROFILES: Partial<Record<EntityType, EnemyProfile>> = {
+  [EntityType.ENEMY_REINDEER]: {
+    aggression: 0.8,
+    chaseRadius: 14,
+    climbChance: 0.6,
+    chaseSpeed: 1.2,
+    walkSpeed: 1,
+    stompable: true,
+    replanInterval: 0.5
+  },
+  // Snowmen are turrets: they shuffle along their floor and throw snowballs instead of hunting
+  [EntityType.ENEMY_SNOWMAN]: {
+    aggression: 0,
+    chaseRadius: 0,
+    climbChance: 0,
+    chaseSpeed: 1,
+    walkSpeed: 0.35,
+    stompable: false,
+    replanInterval: 1
+  }
+};
+
+// Enemies never jump; they walk, climb and drop off ledges
+const ENEMY_MOVES: NavMove[] = ['walk', 'climb', 'fall'];
+const STUCK_TIME = 1.5; // Seconds without reaching a waypoint before the route is abandoned
+
+/** Per-enemy AI state, kept on the entity between steps. */
+export interface EnemyBrain {
+  profile: EnemyProfile;
+  path: NavEdge[];
+  chasing: boolean;
+  climbDir: number; // -1 down, 1 up, 0 not climbing
+  replanTimer: number;
+  stuckTimer: number;
+  lastLadderX: number; // Ladder column already rolled for while patrolling, -1 when off ladders
+}
+
+/** The subset of a world entity the AI steers. */
+export interface EnemyBody {
+  rect: Rect;
+  velocity: { x: number; y: number };
+  grounded: boolean;
+  onLadder: boolean;
+  direction: number;
+}
+
+/**
+ * Steers enemies along routes found on the board's NavGraph.
+ * Only sets horizontal velocity, facing and climb direction; the World still does the physics.
+ */
+export class EnemyAI {
+  private graph: NavGraph;
+  private rng: Random;
+
+  constructor(graph: NavGraph, rng: Random) {
+    this.graph = graph;
+    this.rng = rng;
+  }
+
+  createBrain(type: EntityType, profile: EnemyProfile = ENEMY_PROFILES[type]!): EnemyBrain {
+    return {
+      profile,
+      path: [],
+      chasing: false,
+      climbDir: 0,
+      // Stagger the first search so enemies don't all re-plan on the same step
+      replanTimer: this.rng.range(0, profile.replanInterval),
+      stuckTimer: 0,
+      lastLadderX: -1
+    };
+  }
+
+  /**
+   * @param target Cell the player last stood in, or null if unknown.
+   * @param targetX Player's centre x in pixels, for the final approach on the same floor.
+   */
+  steer(enemy: EnemyBody, brain: EnemyBrain, target: number | null, targetX: number, speed: number, dt: number) {
+    const { profile } = brain;
+    const cell = this.cellOf(enemy);
+    const standing = enemy.grounded || enemy.onLadder;
+
+    brain.replanTimer -= dt;
+    if (brain.replanTimer <= 0 && brain.climbDir === 0 && standing) {
+      brain.replanTimer = profile.replanInterval;
+      this.plan(brain, cell, target);
+    }
+
+    this.advanceWaypoints(enemy, brain, cell, speed, dt);
+
+    if (brain.path.length === 0 && !brain.chasing && standing) {
+      this.considerLadder(enemy, brain, cell);
+    }
+
+    if (brain.path.length > 0) {
+      brain.stuckTimer += dt;
+      if (brain.stuckTimer > STUCK_TIME) {
+        // Knocked off the route (or it no longer matches the physics): search again next step
+        brain.path = [];
+        brain.chasing = false;
+        brain.replanTimer = 0;
+      }
+    }
+
+    const next = brain.path[0];
+    brain.climbDir = 0;
+    if (next?.move === 'climb') {
+      this.steerClimb(enemy, brain, next, speed, dt);
+    } else if (next) {
+      const to = this.graph.cell(next.to);
+      const dx = (to.x + 0.5) * TILE_SIZE - (enemy.rect.x + enemy.rect.w / 2);
+      if (Math.abs(dx) > 1) enemy.direction = Math.sign(dx);
+      enemy.velocity.x = enemy.direction * speed * (brain.chasing ? profile.chaseSpeed : profile.walkSpeed);
+    } else if (brain.chasing) {
+      // Same cell as the player's last footing: close in directly
+      const dx = targetX - (enemy.rect.x + enemy.rect.w / 2);
+      if (Math.abs(dx) > 1) enemy.direction = Math.sign(dx);
+      enemy.velocity.x = enemy.direction * speed * profile.chaseSpeed;
+    } else {
+      enemy.velocity.x = enemy.direction * speed * profile.walkSpeed;
+    }
+  }
+
+  private plan(brain: EnemyBrain, cell: number | null, target: number | null) {
+    brain.chasing = false;
+    if (cell === null || target === null) return;
+    const route = this.graph.findPath(cell, target, ENEMY_MOVES, brain.profile.chaseRadius);
+    if (route && this.rng.next() < brain.profile.aggression) {
+      brain.path = route;
+      brain.chasing = true;
+      brain.stuckTimer = 0;
+    } else if (brain.path.length > 0 && brain.path[0].move !== 'climb') {
+      brain.path = []; // Give up the hunt, but finish any ladder already started
+    }
+  }
+
+  private advanceWaypoints(enemy: EnemyBody, brain: EnemyBrain, cell: number | null, speed: number, dt: number) {
+    const next = brain.path[0];
+    if (!next) return;
+    const to = this.graph.cell(next.to);
+
+    if (next.move === 'climb') {
+      const targetY = to.y * TILE_SIZE;
+      if (enemy.onLadder && Math.abs(enemy.rect.y - targetY) <= speed * dt) {
+        enemy.rect.y = targetY;
+        enemy.velocity.y = 0;
+        brain.path.shift();
+        brain.stuckTimer = 0;
+      }
+    } else if (cell === next.to && (enemy.grounded || enemy.onLadder)) {
+      brain.path.shift();
+      brain.stuckTimer = 0;
+    }
+  }
+
+  private steerClimb(enemy: EnemyBody, brain: EnemyBrain, next: NavEdge, speed: number, dt: number) {
+    const to = this.graph.cell(next.to);
+    const ladderCentre = (to.x + 0.5) * TILE_SIZE;
+    const dx = ladderCentre - (enemy.rect.x + enemy.rect.w / 2);
+    if (Math.abs(dx) > speed * dt || !enemy.onLadder) {
+      // Line up with the ladder before climbing
+      enemy.direction = Math.sign(dx) || enemy.direction;
+      enemy.velocity.x = Math.sign(dx) * Math.min(speed, Math.abs(dx) / dt);
+      return;
+    }
+    enemy.rect.x = ladderCentre - enemy.rect.w / 2;
+    enemy.velocity.x = 0;
+    brain.climbDir = Math.sign(to.y * TILE_SIZE - enemy.rect.y);
+  }
+
+  // A patrolling enemy may take a ladder it walks onto, all the way to its far end
+  private considerLadder(enemy: EnemyBody, brain: EnemyBrain, cell: number | null) {
+    if (!enemy.onLadder || cell === null) {
+      if (!enemy.onLadder) brain.lastLadderX = -1;
+      return;
+    }
+    const { x } = this.graph.cell(cell);
+    if (brain.lastLadderX === x) return;
+    brain.lastLadderX = x;
+
+    const climbs = this.graph.neighbours(cell).filter(e => e.move === 'climb');
+    if (climbs.length === 0 || this.rng.next() >= brain.profile.climbChance) return;
+
+    const first = this.rng.pick(climbs);
+    const dir = Math.sign(this.graph.cell(first.to).y - this.graph.cell(cell).y);
+    const route = [first];
+    for (let at = first.to; ;) {
+      const onward = this.graph.neighbours(at).find(e => e.move === 'climb' && this.graph.cell(e.to).y - this.graph.cell(at).y === dir);
+      if (!onward) break;
+      route.push(onward);
+      at = onward.to;
+    }
+    brain.path = route;
+    brain.stuckTimer = 0;
+  }
+
+  /** Cell index the enemy is standing in, or null if it is between rows (mid-fall). */
+  private cellOf(enemy: EnemyBody): number | null {
+    const x = Math.floor((enemy.rect.x + enemy.rect.w / 2) / TILE_SIZE);
+    const y = Math.round(enemy.rect.y / TILE_SIZE);
+    if (!this.graph.isStandable(x, y)) return null;
+    return this.graph.index(x, y);
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Gift colours: what each is worth and how often it turns up.
+ * Sprite keys match the variants generated in createTextures().
+ */
+export interface GiftColour {
+  sprite: string;
+  points: number; // At level 1, before combos; scaled by Difficulty.giftValue
+  weight: number; // Relative chance of being placed
+}
+
+export const GIFT_COLOURS: GiftColour[] = [
+  { sprite: 'gift_red', points: 100, weight: 30 },
+  { sprite: 'gift_green', points: 100, weight: 30 },
+  { sprite: 'gift_blue', points: 150, weight: 15 },
+  { sprite: 'gift_orange', points: 150, weight: 15 },
+  { sprite: 'gift_purple', points: 200, weight: 6 },
+  { sprite: 'gift_teal', points: 300, weight: 3 },
+  { sprite: 'gift_yellow', points: 500, weight: 1 }
+];
+
+// Set bonuses, awarded on the pickup that completes the set
+export const COLOUR_RUN_BONUS = 250; // per gift, for collecting every gift of one colour back to back (2+ gifts)
+export const RAINBOW_BONUS = 1000; // for collecting one of each colour on the board before any repeat (3+ colours)
+
+// Chimney delivery: gifts go into a sack and only score once dropped down a chimney
+export const SACK_CAPACITY = 5;
+export const LOAD_BONUS = [0, 100, 300, 600, 1000]; // Extra points for delivering 1, 2, 3... gifts at once
+const CARRY_SPEED_PENALTY = 0.06; // Fraction of run speed lost per carried gift
+const CARRY_JUMP_PENALTY = 0.03; // Fraction of jump force lost per carried gift
+
+/** Run speed and jump force multipliers for Santa carrying `carried` gifts. */
+export const carryPenalty = (carried: number) => ({
+  moveSpeed: 1 - CARRY_SPEED_PENALTY * carried,
+  jumpForce: 1 - CARRY_JUMP_PENALTY * carried
+});
+
+export const giftColour = (sprite: string): GiftColour =>
+  GIFT_COLOURS.find(colour => colour.sprite === sprite) ?? GIFT_COLOURS[0];
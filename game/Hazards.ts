@@ -0,0 +1,26 @@
+import { Rect } from '../types';
+
+/** Environmental hazards. They hurt Santa and enemies alike, then grow back after a while. */
+export type HazardKind = 'icicle' | 'puddle';
+
+export const HAZARD_GLYPHS: Record<string, HazardKind> = {
+  'V': 'icicle', // Hangs under a solid tile
+  '^': 'puddle' // Frozen puddle of ice spikes on a floor
+};
+
+/**
+ * Hitbox of each kind within its tile (y up, like the world). Sprites fill the whole tile,
+ * but only the sharp part hurts.
+ */
+export const HAZARD_HITBOXES: Record<HazardKind, Rect> = {
+  icicle: { x: 5, y: 4, w: 6, h: 12 },
+  puddle: { x: 1, y: 0, w: 14, h: 5 }
+};
+
+export const HAZARD_RESPAWN = 5; // seconds until a fallen icicle or shattered puddle is back
+export const HAZARD_POINTS = 500; // for each enemy a hazard takes out
+
+// Icicles shake once Santa passes underneath, then drop
+export const ICICLE_TRIGGER_X = 12; // px between Santa's centre and the icicle's
+export const ICICLE_TRIGGER_RANGE = 6; // tiles below the icicle it can see
+export const ICICLE_SHAKE = 0.6; // seconds
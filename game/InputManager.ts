@@ -1,9 +1,67 @@
+import { Action, ActionState, InputState } from '../types';
+
+const ACTIONS: Action[] = ['left', 'right', 'up', 'down', 'jump'];
+
+// Co-op: Santa on WASD + Space, Mrs. Claus on the arrows + Right Shift
+const PLAYER_KEYS: Record<Action, string[]>[] = [
+  { left: ['KeyA'], right: ['KeyD'], up: ['KeyW'], down: ['KeyS'], jump: ['Space', 'KeyW'] },
+  { left: ['ArrowLeft'], right: ['ArrowRight'], up: ['ArrowUp'], down: ['ArrowDown'], jump: ['ShiftRight', 'ArrowUp'] }
+];
+
+// Playing alone, either set works
+const SOLO_KEYS = Object.fromEntries(
+  ACTIONS.map(action => [action, PLAYER_KEYS.flatMap(keys => keys[action])])
+) as Record<Action, string[]>;
+
+// Gamepads, in the browser's "standard" layout
+const STICK_DEADZONE = 0.3; // Left-stick deflection ignored as drift
+const STICK_DIAGONAL = 0.38; // sin(22.5°): how far off an axis the stick must lean to count as that direction too
+const PAD_BUTTONS: Partial<Record<Action, number[]>> = {
+  up: [12],
+  down: [13],
+  left: [14],
+  right: [15],
+  jump: [0] // A / Cross
+};
+
+/** A controller coming or going, for the on-screen toast. */
+export interface GamepadNotice {
+  connected: boolean;
+  slot: number; // From 0; a pad keeps its slot until it disconnects, and the next pad takes the first free one
+}
+
+/**
+ * Which player a pad drives: every pad drives Santa when playing alone. In co-op the first pad goes to
+ * Mrs. Claus (Santa keeps the keyboard) and the next to Santa.
+ */
+export const padPlayer = (slot: number, players: number): number => (slot + 1) % players;
+
+const noActions = (): ActionState => ({ left: false, right: false, up: false, down: false, jump: false });
+
+/** Collapses held actions into the World's input; opposite directions cancel out. */
+const toInputState = (actions: ActionState): InputState => ({
+  x: (actions.right ? 1 : 0) - (actions.left ? 1 : 0),
+  y: (actions.up ? 1 : 0) - (actions.down ? 1 : 0),
+  jump: actions.jump
+});
+
+/**
+ * Keyboard and gamepad input, merged into one ActionState per player. The keyboard is event-driven;
+ * gamepads are polled whenever the engine asks for input.
+ */
 export class InputManager {
   keys: Record<string, boolean> = {};
+  private pads: (number | null)[] = []; // Gamepad index per slot; a slot stays empty after its pad leaves
+  private onGamepad: (notice: GamepadNotice) => void;
 
-  constructor() {
+  constructor(onGamepad: (notice: GamepadNotice) => void = () => {}) {
+    this.onGamepad = onGamepad;
+    // Pads connected before we were listening (e.g. back from the editor) don't fire the event again
+    this.pads = this.readGamepads().map(pad => pad.index);
     window.addEventListener('keydown', this.onKeyDown);
     window.addEventListener('keyup', this.onKeyUp);
+    window.addEventListener('gamepadconnected', this.onGamepadConnected);
+    window.addEventListener('gamepaddisconnected', this.onGamepadDisconnected);
   }
 
   private onKeyDown = (e: KeyboardEvent) => {
@@ -14,26 +72,77 @@ export class InputManager {
     this.keys[e.code] = false;
   };
 
+  private onGamepadConnected = (e: GamepadEvent) => {
+    if (this.pads.includes(e.gamepad.index)) return;
+    // Refill the first free slot, so pads still plugged in keep their player
+    let slot = this.pads.indexOf(null);
+    if (slot < 0) slot = this.pads.length;
+    this.pads[slot] = e.gamepad.index;
+    this.onGamepad({ connected: true, slot });
+  };
+
+  private onGamepadDisconnected = (e: GamepadEvent) => {
+    const slot = this.pads.indexOf(e.gamepad.index);
+    if (slot < 0) return;
+    this.pads[slot] = null;
+    this.onGamepad({ connected: false, slot });
+  };
+
   isDown(code: string): boolean {
     return !!this.keys[code];
   }
 
-  getAxis(): { x: number; y: number } {
-    let x = 0;
-    let y = 0;
-    if (this.isDown('ArrowLeft') || this.isDown('KeyA')) x -= 1;
-    if (this.isDown('ArrowRight') || this.isDown('KeyD')) x += 1;
-    if (this.isDown('ArrowUp') || this.isDown('KeyW')) y += 1;
-    if (this.isDown('ArrowDown') || this.isDown('KeyS')) y -= 1;
-    return { x, y };
+  /** This tick's input for each player, Santa first. */
+  getStates(players: number): InputState[] {
+    const actions = Array.from({ length: players }, (_, player) =>
+      this.keyActions(players === 1 ? SOLO_KEYS : PLAYER_KEYS[player]));
+
+    const pads = new Map(this.readGamepads().map(pad => [pad.index, pad]));
+    this.pads.forEach((index, slot) => {
+      const pad = index === null ? undefined : pads.get(index);
+      if (!pad) return;
+      const merged = actions[padPlayer(slot, players)];
+      const held = this.padActions(pad);
+      for (const action of ACTIONS) merged[action] ||= held[action];
+    });
+
+    return actions.map(toInputState);
+  }
+
+  private keyActions(bindings: Record<Action, string[]>): ActionState {
+    const actions = noActions();
+    for (const action of ACTIONS) actions[action] = bindings[action].some(code => this.isDown(code));
+    return actions;
+  }
+
+  private padActions(pad: Gamepad): ActionState {
+    const actions = noActions();
+    for (const action of ACTIONS) {
+      actions[action] = (PAD_BUTTONS[action] ?? []).some(button => pad.buttons[button]?.pressed);
+    }
+
+    // Left stick (y is down-positive on gamepads), ignoring anything inside the deadzone
+    const x = pad.axes[0] ?? 0;
+    const y = pad.axes[1] ?? 0;
+    const magnitude = Math.hypot(x, y);
+    if (magnitude >= STICK_DEADZONE) {
+      actions.left ||= x / magnitude < -STICK_DIAGONAL;
+      actions.right ||= x / magnitude > STICK_DIAGONAL;
+      actions.up ||= y / magnitude < -STICK_DIAGONAL;
+      actions.down ||= y / magnitude > STICK_DIAGONAL;
+    }
+    return actions;
   }
 
-  isJumpPressed(): boolean {
-    return this.isDown('Space') || this.isDown('ArrowUp') || this.isDown('KeyW');
+  // Browsers without the Gamepad API, or with no pads, give an empty list
+  private readGamepads(): Gamepad[] {
+    return (navigator.getGamepads?.() ?? []).filter((pad): pad is Gamepad => !!pad && pad.connected);
   }
 
   cleanup() {
     window.removeEventListener('keydown', this.onKeyDown);
     window.removeEventListener('keyup', this.onKeyUp);
+    window.removeEventListener('gamepadconnected', this.onGamepadConnected);
+    window.removeEventListener('gamepaddisconnected', this.onGamepadDisconnected);
   }
 }
@@ -0,0 +1,32 @@
+import { TILE_SIZE } from '../constants';
+
+/** Krampus cycles through these, spending KRAMPUS_PHASE_TIME on each. */
+export type KrampusPhase = 'pound' | 'coal' | 'summon';
+
+export const KRAMPUS_PHASES: KrampusPhase[] = ['pound', 'coal', 'summon'];
+
+// Krampus is two tiles wide and three high; 'K' in the map marks his bottom-left tile
+export const KRAMPUS_WIDTH = TILE_SIZE * 2;
+export const KRAMPUS_HEIGHT = TILE_SIZE * 3;
+export const KRAMPUS_HEAD = TILE_SIZE; // Top slice of him that stomps and dropped gifts can hurt
+
+export const KRAMPUS_HEALTH = 8; // Hits to defeat him
+export const KRAMPUS_SPEED = 30; // px per second while stalking Santa
+export const KRAMPUS_PHASE_TIME = 7; // seconds
+export const KRAMPUS_HURT_TIME = 1.2; // seconds he flinches (and can't be hurt) after a hit
+export const KRAMPUS_HIT_POINTS = 500;
+export const KRAMPUS_BONUS = 10000; // Plus an extra life for defeating him
+
+// Ground-pound: he leaps towards Santa and sends a shockwave along the floor both ways when he lands
+export const POUND_INTERVAL = 2; // seconds between leaps
+export const POUND_JUMP = 240; // Upward speed of the leap
+export const POUND_LEAP_SPEED = 60; // Sideways speed while in the air
+export const SHOCKWAVE_SPEED = 110; // px per second
+export const SHOCKWAVE_RANGE = TILE_SIZE * 9;
+
+// Coal: lobbed at Santa like a snowman's snowball
+export const COAL_INTERVAL = 1.1; // seconds between throws
+
+// Summoning: he roars for SUMMON_WINDUP, then a reindeer appears on each side of him (once per phase)
+export const SUMMON_WINDUP = 1.2; // seconds
+export const MAX_MINIONS = 3; // No summoning while this many enemies are about
@@ -0,0 +1,345 @@
+import { WORLD_WIDTH, WORLD_HEIGHT, MOVE_SPEED, JUMP_FORCE } from '../constants';
+import { Level, LevelData, LevelObjective, PlatformPath, SpawnerSchedule } from '../types';
+import { NavGraph, findPlacementSpots } from './NavGraph';
+import { SACK_CAPACITY, carryPenalty } from './Gifts';
+import { MAX_EXTRA_GIFTS } from './Difficulty';
+import { isOneWayGlyph, isSolidGlyph } from './Tiles';
+
+export const LEVEL_FORMAT_VERSION = 1;
+
+// Every glyph the map parser understands
+export const LEVEL_GLYPHS: Record<string, string> = {
+  ' ': 'Empty',
+  '#': 'Floor',
+  'I': 'Ice',
+  '<': 'Conveyor (left)',
+  '>': 'Conveyor (right)',
+  'X': 'Crumbling snow',
+  '-': 'One-way platform',
+  'H': 'Ladder',
+  '@': 'Santa spawn',
+  'R': 'Reindeer',
+  'S': 'Snowman',
+  'G': 'Gift',
+  'T': 'Tree',
+  'C': 'Chimney',
+  'V': 'Icicle',
+  '^': 'Frozen puddle',
+  'D': 'Grotto door',
+  'K': 'Krampus',
+};
+
+const LEVEL_OBJECTIVES: LevelObjective[] = ['collect', 'deliver', 'boss'];
+
+export const DEFAULT_SPAWNERS: SpawnerSchedule = { interval: 12, max: 6 };
+
+export class LevelFormatError extends Error {
+  readonly issues: string[];
+
+  constructor(levelName: string, issues: string[]) {
+    super(`Invalid level "${levelName}":\n  - ${issues.join('\n  - ')}`);
+    this.name = 'LevelFormatError';
+    this.issues = issues;
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFloorGlyph = (glyph: string | undefined): boolean =>
+  glyph !== undefined && (isSolidGlyph(glyph) || isOneWayGlyph(glyph));
+
+const isPositiveNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+/**
+ * Checks raw level data against the level format.
+ * Returns a list of human readable problems; an empty list means the level is valid.
+ */
+export const validateLevel = (data: unknown): string[] => {
+  const issues: string[] = [];
+
+  if (!isRecord(data)) {
+    return ['Level must be a JSON object'];
+  }
+
+  if (data.version !== LEVEL_FORMAT_VERSION) {
+    issues.push(`Unsupported version ${JSON.stringify(data.version)} (expected ${LEVEL_FORMAT_VERSION})`);
+  }
+
+  if (typeof data.name !== 'string' || data.name.trim() === '') {
+    issues.push('Missing level name');
+  }
+
+  if (!isRecord(data.theme) || typeof data.theme.music !== 'string' || typeof data.theme.background !== 'string') {
+    issues.push('theme must have "music" and "background" strings');
+  } else if (!/^#[0-9a-fA-F]{6}$/.test(data.theme.background)) {
+    issues.push(`theme.background "${data.theme.background}" is not a #RRGGBB colour`);
+  }
+
+  if (!isRecord(data.enemySpeed) || !isPositiveNumber(data.enemySpeed.reindeer) || !isPositiveNumber(data.enemySpeed.snowman)) {
+    issues.push('enemySpeed must have positive "reindeer" and "snowman" numbers');
+  }
+
+  if (!isRecord(data.gifts) || !Number.isInteger(data.gifts.min) || !Number.isInteger(data.gifts.max)) {
+    issues.push('gifts must have integer "min" and "max"');
+  } else if ((data.gifts.min as number) < 1 || (data.gifts.min as number) > (data.gifts.max as number)) {
+    issues.push(`gifts range ${data.gifts.min}-${data.gifts.max} is invalid`);
+  }
+
+  if (data.objective !== undefined && !LEVEL_OBJECTIVES.includes(data.objective as LevelObjective)) {
+    issues.push(`objective must be one of ${LEVEL_OBJECTIVES.join(', ')}`);
+  }
+
+  if (data.spawners !== undefined && (!isRecord(data.spawners) || !isPositiveNumber(data.spawners.interval)
+      || !Number.isInteger(data.spawners.max) || (data.spawners.max as number) < 1)) {
+    issues.push('spawners must have a positive "interval" and a whole "max" of at least 1');
+  }
+
+  if (!Array.isArray(data.map) || !data.map.every(row => typeof row === 'string')) {
+    issues.push('map must be an array of strings');
+    return issues;
+  }
+
+  const map = data.map as string[];
+  if (map.length !== WORLD_HEIGHT) {
+    issues.push(`map has ${map.length} rows (expected ${WORLD_HEIGHT})`);
+  }
+
+  let spawnCount = 0;
+  let krampusCount = 0;
+  map.forEach((row, i) => {
+    if (row.length !== WORLD_WIDTH) {
+      issues.push(`Row ${i + 1} is ${row.length} wide (expected ${WORLD_WIDTH})`);
+    }
+    for (let x = 0; x < row.length; x++) {
+      const char = row[x];
+      if (!(char in LEVEL_GLYPHS)) {
+        issues.push(`Unknown glyph "${char}" at row ${i + 1}, column ${x + 1}`);
+      } else if (char === '@') {
+        spawnCount++;
+      } else if (char === 'V' && !isSolidGlyph(map[i - 1]?.[x] ?? '')) {
+        issues.push(`Icicle at row ${i + 1}, column ${x + 1} must hang under a solid tile`);
+      } else if (char === '^' && !isFloorGlyph(map[i + 1]?.[x])) {
+        issues.push(`Frozen puddle at row ${i + 1}, column ${x + 1} must lie on a floor`);
+      } else if (char === 'D' && !isFloorGlyph(map[i + 1]?.[x])) {
+        issues.push(`Grotto door at row ${i + 1}, column ${x + 1} must stand on a floor`);
+      } else if (char === 'K') {
+        krampusCount++;
+        issues.push(...checkKrampus(map, x, i));
+      }
+    }
+  });
+
+  if (spawnCount === 0) issues.push('Missing Santa spawn "@"');
+  if (spawnCount > 1) issues.push(`Found ${spawnCount} Santa spawns "@" (expected 1)`);
+  if (data.objective === 'boss' && krampusCount !== 1) {
+    issues.push(`A boss board needs exactly one Krampus "K" (found ${krampusCount})`);
+  }
+  if (data.objective !== 'boss' && krampusCount > 0) issues.push('Krampus "K" only appears on boss boards');
+
+  if (data.platforms !== undefined) {
+    if (!Array.isArray(data.platforms)) issues.push('platforms must be an array');
+    else data.platforms.forEach((platform, i) => issues.push(...checkPlatform(platform, i, map)));
+  }
+
+  if (issues.length === 0) {
+    const rows = [...map].reverse();
+    const platforms = flipPlatforms((data.platforms ?? []) as PlatformPath[], rows.length);
+    issues.push(...checkWinnable(rows, data.gifts as { min: number; max: number }, platforms));
+    if (data.objective === 'deliver') issues.push(...checkDeliverable(rows, platforms));
+  }
+
+  return issues;
+};
+
+/**
+ * A platform needs a width, a speed and at least two stops, and its whole route (stop to stop,
+ * along a row or a column) must run through empty cells.
+ */
+const checkPlatform = (platform: unknown, index: number, map: string[]): string[] => {
+  const name = `Platform ${index + 1}`;
+  if (!isRecord(platform) || !Number.isInteger(platform.width) || (platform.width as number) < 1 || !isPositiveNumber(platform.speed)) {
+    return [`${name} must have a whole "width" of at least 1 and a positive "speed"`];
+  }
+  const path = platform.path;
+  if (!Array.isArray(path) || path.length < 2 || !path.every(stop => isRecord(stop) && Number.isInteger(stop.x) && Number.isInteger(stop.y))) {
+    return [`${name} needs a "path" of at least two {x, y} stops`];
+  }
+
+  const width = platform.width as number;
+  const stops = path as { x: number; y: number }[];
+  const legs = stops.map((from, i) => [from, stops[(i + 1) % stops.length]]);
+  if (platform.loop !== true) legs.pop(); // Reversing platforms never travel from the last stop to the first
+
+  for (const [from, to] of legs) {
+    if (from.x !== to.x && from.y !== to.y) {
+      return [`${name} moves diagonally from ${from.x},${from.y} to ${to.x},${to.y}; each leg must follow a row or a column`];
+    }
+    const x0 = Math.min(from.x, to.x);
+    const x1 = Math.max(from.x, to.x) + width - 1;
+    for (let y = Math.min(from.y, to.y); y <= Math.max(from.y, to.y); y++) {
+      for (let x = x0; x <= x1; x++) {
+        if (map[y]?.[x] !== ' ') return [`${name} runs into row ${y + 1}, column ${x + 1}; its route must be empty cells`];
+      }
+    }
+  }
+  return [];
+};
+
+/**
+ * 'K' marks Krampus's bottom-left tile. The rest of his two-by-three footprint must be empty,
+ * and both of his feet must be on a floor.
+ */
+const checkKrampus = (map: string[], x: number, y: number): string[] => {
+  const where = `Krampus at row ${y + 1}, column ${x + 1}`;
+  for (let dy = 0; dy < 3; dy++) {
+    for (let dx = 0; dx < 2; dx++) {
+      if ((dx > 0 || dy > 0) && map[y - dy]?.[x + dx] !== ' ') return [`${where} needs two columns by three rows of empty cells`];
+    }
+  }
+  if (!isFloorGlyph(map[y + 1]?.[x]) || !isFloorGlyph(map[y + 1]?.[x + 1])) return [`${where} must stand on a floor`];
+  return [];
+};
+
+/** Converts platform stops between top-first (`map`) and bottom-first (`rows`) row numbering. */
+const flipPlatforms = (platforms: PlatformPath[], height: number): PlatformPath[] =>
+  platforms.map(platform => ({
+    ...platform,
+    path: platform.path.map(({ x, y }) => ({ x, y: height - 1 - y }))
+  }));
+
+/**
+ * Uses the navigation graph to check that the board can be cleared:
+ * every hand-placed gift must be reachable and there must be room for the most gifts the campaign can ask for,
+ * gifts.max plus the difficulty curve's extra gifts.
+ */
+const checkWinnable = (rows: string[], gifts: { min: number; max: number }, platforms: PlatformPath[]): string[] => {
+  const issues: string[] = [];
+  const graph = new NavGraph(rows, { platforms });
+  let spawn = { x: 0, y: 0 };
+  rows.forEach((row, y) => {
+    if (row.includes('@')) spawn = { x: row.indexOf('@'), y };
+  });
+
+  const reachable = graph.reachableFrom(spawn.x, spawn.y);
+  let fixedGifts = 0;
+  rows.forEach((row, y) => {
+    for (let x = 0; x < row.length; x++) {
+      if (row[x] !== 'G') continue;
+      if (reachable.has(graph.index(x, y))) fixedGifts++;
+      else issues.push(`Unwinnable: gift at row ${rows.length - y}, column ${x + 1} cannot be reached`);
+    }
+  });
+
+  const capacity = fixedGifts + findPlacementSpots(graph, rows, spawn).length;
+  const needed = gifts.max + MAX_EXTRA_GIFTS;
+  if (capacity < needed) {
+    issues.push(`Unwinnable: only ${capacity} reachable gift spots, but up to ${needed} gifts are placed `
+      + `(gifts.max ${gifts.max} plus ${MAX_EXTRA_GIFTS} on later loops)`);
+  }
+  return issues;
+};
+
+/**
+ * Delivery boards: every chimney must stand on a floor, and Santa must be able to carry a full sack
+ * from anywhere a gift can be to at least one chimney. Loaded jumps are lower, so this uses a
+ * navigation graph built with the full-sack physics.
+ */
+const checkDeliverable = (rows: string[], platforms: PlatformPath[]): string[] => {
+  const issues: string[] = [];
+  const graph = new NavGraph(rows, { platforms });
+  const chimneys = new Set<number>();
+  rows.forEach((row, y) => {
+    for (let x = 0; x < row.length; x++) {
+      if (row[x] !== 'C') continue;
+      if (graph.isFloorSpot(x, y)) chimneys.add(graph.index(x, y));
+      else issues.push(`Chimney at row ${rows.length - y}, column ${x + 1} must stand on a floor`);
+    }
+  });
+  if (chimneys.size === 0) {
+    issues.push('A deliver board needs at least one chimney "C" on a floor');
+    return issues;
+  }
+
+  const spawnY = rows.findIndex(row => row.includes('@'));
+  const spawn = { x: rows[spawnY].indexOf('@'), y: spawnY };
+  const penalty = carryPenalty(SACK_CAPACITY);
+  const loaded = new NavGraph(rows, {
+    moveSpeed: MOVE_SPEED * penalty.moveSpeed,
+    jumpForce: JUMP_FORCE * penalty.jumpForce,
+    platforms
+  });
+  const giftCells = findPlacementSpots(graph, rows, spawn);
+  rows.forEach((row, y) => {
+    for (let x = 0; x < row.length; x++) if (row[x] === 'G') giftCells.push({ x, y });
+  });
+
+  for (const { x, y } of giftCells) {
+    const reachable = loaded.reachableFrom(x, y);
+    if (![...chimneys].some(chimney => reachable.has(chimney))) {
+      issues.push(`Unwinnable: a full sack cannot be carried from row ${rows.length - y}, column ${x + 1} to a chimney`);
+      break;
+    }
+  }
+  return issues;
+};
+
+/**
+ * Validates raw level data and converts it into the engine representation.
+ * Throws a LevelFormatError listing every problem found.
+ */
+export const parseLevel = (data: unknown): Level => {
+  const issues = validateLevel(data);
+  if (issues.length > 0) {
+    const name = isRecord(data) && typeof data.name === 'string' ? data.name : 'untitled';
+    throw new LevelFormatError(name, issues);
+  }
+
+  const level = data as LevelData;
+  const rows = [...level.map].reverse();
+  let spawn = { x: 0, y: 0 };
+  rows.forEach((row, y) => {
+    const x = row.indexOf('@');
+    if (x !== -1) spawn = { x, y };
+  });
+
+  return {
+    name: level.name,
+    theme: { ...level.theme },
+    enemySpeed: { ...level.enemySpeed },
+    gifts: { ...level.gifts },
+    objective: level.objective ?? 'collect',
+    platforms: flipPlatforms(level.platforms ?? [], rows.length),
+    spawners: { ...(level.spawners ?? DEFAULT_SPAWNERS) },
+    rows,
+    spawn
+  };
+};
+
+/**
+ * Converts an engine level back into the on-disk format.
+ */
+export const toLevelData = (level: Level): LevelData => ({
+  version: LEVEL_FORMAT_VERSION,
+  name: level.name,
+  theme: { ...level.theme },
+  enemySpeed: { ...level.enemySpeed },
+  gifts: { ...level.gifts },
+  objective: level.objective,
+  platforms: flipPlatforms(level.platforms, level.rows.length),
+  spawners: { ...level.spawners },
+  map: [...level.rows].reverse()
+});
+
+export const serializeLevel = (data: LevelData): string => JSON.stringify(data, null, 2) + '\n';
+
+export const parseLevelText = (text: string): Level => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    throw new LevelFormatError('untitled', [`Not valid JSON: ${(err as Error).message}`]);
+  }
+  return parseLevel(data);
+};
@@ -0,0 +1,328 @@
+import {
+  TILE_SIZE, GRAVITY, JUMP_FORCE, MOVE_SPEED, FIXED_TIMESTEP
+} from '../constants';
+import { PlatformPath, Rect } from '../types';
+import { isOneWayGlyph, isSolidGlyph } from './Tiles';
+
+// 'drop' is Down+Jump through a one-way platform; 'ride' is a trip on a moving platform
+export type NavMove = 'walk' | 'climb' | 'jump' | 'fall' | 'drop' | 'ride';
+
+export interface NavEdge {
+  to: number; // Cell index (y * width + x)
+  move: NavMove;
+}
+
+// Player collision box, matching GameEngine.createEntity
+const BODY_W = 12;
+const BODY_H = TILE_SIZE;
+const BODY_INSET = 2;
+
+const SIM_DT = FIXED_TIMESTEP;
+const SIM_MAX_STEPS = Math.ceil(4 / SIM_DT); // Give up on arcs longer than four seconds
+// How long the player keeps steering during an arc before letting go (Infinity = whole arc)
+const STEER_TIMES = [Infinity, 0.1, 0.2, 0.35];
+
+const overlaps = (rect: Rect, tx: number, ty: number): boolean =>
+  rect.x < (tx + 1) * TILE_SIZE &&
+  rect.x + rect.w > tx * TILE_SIZE &&
+  rect.y < (ty + 1) * TILE_SIZE &&
+  rect.y + rect.h > ty * TILE_SIZE;
+
+/**
+ * Movement graph over the tile grid.
+ * Nodes are cells Santa can stand in (on a floor or holding a ladder); edges are the moves that
+ * get him from one to another. Jump and fall arcs are simulated with the same GRAVITY, JUMP_FORCE
+ * and MOVE_SPEED the engine uses, so an edge exists only if the real physics allow it.
+ */
+export class NavGraph {
+  readonly width: number;
+  readonly height: number;
+  private rows: string[];
+  private edges = new Map<number, NavEdge[]>();
+  private moveSpeed: number;
+  private jumpForce: number;
+
+  /**
+   * @param rows Level rows, bottom row first (same orientation as Level.rows).
+   * @param options Physics overrides for a slowed-down Santa (e.g. carrying a full sack), and moving
+   *   platforms to ride. Each platform stop is treated as a one-way floor, linked to its other stops.
+   */
+  constructor(rows: string[], options: { moveSpeed?: number; jumpForce?: number; platforms?: PlatformPath[] } = {}) {
+    const platforms = options.platforms ?? [];
+    this.rows = platforms.length > 0 ? overlayStops(rows, platforms) : rows;
+    this.moveSpeed = options.moveSpeed ?? MOVE_SPEED;
+    this.jumpForce = options.jumpForce ?? JUMP_FORCE;
+    this.height = rows.length;
+    this.width = rows[0]?.length ?? 0;
+
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) {
+        if (this.isStandable(x, y)) {
+          this.edges.set(this.index(x, y), this.buildEdges(x, y));
+        }
+      }
+    }
+
+    for (const platform of platforms) {
+      const boarding = platform.path
+        .map(stop => ({ x: stop.x, y: stop.y + 1 }))
+        .filter(cell => this.isStandable(cell.x, cell.y));
+      for (const from of boarding) {
+        const edges = this.edges.get(this.index(from.x, from.y))!;
+        for (const to of boarding) {
+          const idx = this.index(to.x, to.y);
+          if (to !== from && !edges.some(e => e.to === idx)) edges.push({ to: idx, move: 'ride' });
+        }
+      }
+    }
+  }
+
+  index(x: number, y: number): number {
+    return y * this.width + x;
+  }
+
+  cell(index: number): { x: number; y: number } {
+    return { x: index % this.width, y: Math.floor(index / this.width) };
+  }
+
+  isSolid(x: number, y: number): boolean {
+    if (x < 0 || x >= this.width) return true; // World edges act as walls
+    if (y < 0 || y >= this.height) return false;
+    return isSolidGlyph(this.rows[y][x]);
+  }
+
+  isOneWay(x: number, y: number): boolean {
+    if (x < 0 || x >= this.width || y < 0 || y >= this.height) return false;
+    return isOneWayGlyph(this.rows[y][x]);
+  }
+
+  /** Anything that can be stood on: solid tiles and one-way platforms. */
+  private isFloor(x: number, y: number): boolean {
+    return this.isSolid(x, y) || this.isOneWay(x, y);
+  }
+
+  isLadder(x: number, y: number): boolean {
+    if (x < 0 || x >= this.width || y < 0 || y >= this.height) return false;
+    return this.rows[y][x] === 'H';
+  }
+
+  isStandable(x: number, y: number): boolean {
+    if (x < 0 || x >= this.width || y < 0 || y >= this.height) return false;
+    if (this.isSolid(x, y)) return false;
+    return this.isLadder(x, y) || (y > 0 && this.isFloor(x, y - 1));
+  }
+
+  /** True for standable cells with floor underneath (not just a ladder). */
+  isFloorSpot(x: number, y: number): boolean {
+    return y > 0 && !this.isSolid(x, y) && this.isFloor(x, y - 1);
+  }
+
+  neighbours(index: number): NavEdge[] {
+    return this.edges.get(index) ?? [];
+  }
+
+  /**
+   * Breadth-first flood from a start cell. Returns the indices of every cell reachable from it.
+   */
+  reachableFrom(x: number, y: number): Set<number> {
+    const start = this.index(x, y);
+    const visited = new Set<number>([start]);
+    const queue = [start];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const edge of this.neighbours(current)) {
+        if (!visited.has(edge.to)) {
+          visited.add(edge.to);
+          queue.push(edge.to);
+        }
+      }
+    }
+    return visited;
+  }
+
+  /**
+   * Breadth-first search for the route with the fewest moves, using only the given kinds of move.
+   * Returns the edges to follow (empty when already there), or null if `to` is out of reach
+   * within `maxMoves`.
+   */
+  findPath(from: number, to: number, moves: NavMove[], maxMoves = Infinity): NavEdge[] | null {
+    if (from === to) return [];
+    const cameFrom = new Map<number, { from: number; edge: NavEdge }>();
+    const depth = new Map<number, number>([[from, 0]]);
+    const queue = [from];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      const d = depth.get(current)!;
+      if (d >= maxMoves) continue;
+      for (const edge of this.neighbours(current)) {
+        if (depth.has(edge.to) || !moves.includes(edge.move)) continue;
+        depth.set(edge.to, d + 1);
+        cameFrom.set(edge.to, { from: current, edge });
+        if (edge.to === to) {
+          const path: NavEdge[] = [];
+          for (let at = to; at !== from; at = cameFrom.get(at)!.from) path.unshift(cameFrom.get(at)!.edge);
+          return path;
+        }
+        queue.push(edge.to);
+      }
+    }
+    return null;
+  }
+
+  private buildEdges(x: number, y: number): NavEdge[] {
+    const edges: NavEdge[] = [];
+    const add = (to: { x: number; y: number } | null, move: NavMove) => {
+      if (!to) return;
+      const idx = this.index(to.x, to.y);
+      if (idx !== this.index(x, y) && !edges.some(e => e.to === idx)) edges.push({ to: idx, move });
+    };
+
+    // Ladders: climb to the next rung, or off the top onto a floor
+    if (this.isLadder(x, y)) {
+      if (this.isLadder(x, y + 1) || this.isStandable(x, y + 1)) add({ x, y: y + 1 }, 'climb');
+      if (this.isLadder(x, y - 1)) add({ x, y: y - 1 }, 'climb');
+    }
+
+    // Walking sideways, or off a ledge
+    for (const dir of [-1, 1]) {
+      const nx = x + dir;
+      if (this.isSolid(nx, y)) continue;
+      if (this.isStandable(nx, y)) {
+        add({ x: nx, y }, 'walk');
+      } else {
+        for (const steer of STEER_TIMES) {
+          add(this.simulateArc(nx, y, dir, 0, steer), 'fall');
+        }
+      }
+    }
+
+    // Jumping is only possible with floor underfoot (never while holding a ladder)
+    if (this.isFloorSpot(x, y) && !this.isLadder(x, y)) {
+      for (const dir of [-1, 0, 1]) {
+        for (const steer of dir === 0 ? [0] : STEER_TIMES) {
+          add(this.simulateArc(x, y, dir, this.jumpForce, steer), 'jump');
+        }
+      }
+    }
+
+    // Dropping through a one-way platform underfoot
+    if (this.isOneWay(x, y - 1) && !this.isLadder(x, y)) {
+      add(this.simulateArc(x, y - 1, 0, 0, 0), 'drop');
+    }
+
+    return edges;
+  }
+
+  /**
+   * Runs the engine's movement rules for an airborne player starting in cell (x, y).
+   * Returns the cell the player comes to rest in, or null if they leave the world.
+   */
+  private simulateArc(x: number, y: number, dir: number, vy: number, steerTime: number) {
+    const rect: Rect = { x: x * TILE_SIZE + BODY_INSET, y: y * TILE_SIZE, w: BODY_W, h: BODY_H };
+    const velocity = { x: 0, y: vy };
+
+    for (let step = 0; step < SIM_MAX_STEPS; step++) {
+      const t = step * SIM_DT;
+      velocity.x = t < steerTime ? dir * this.moveSpeed : 0;
+      velocity.y -= GRAVITY * SIM_DT;
+
+      rect.x += velocity.x * SIM_DT;
+      this.resolve(rect, velocity, 'x');
+      rect.x = Math.max(0, Math.min(rect.x, this.width * TILE_SIZE - rect.w));
+
+      const prevY = rect.y;
+      rect.y += velocity.y * SIM_DT;
+      const grounded = this.resolve(rect, velocity, 'y', prevY);
+      if (rect.y < 0) return null;
+
+      const cx = Math.floor((rect.x + rect.w / 2) / TILE_SIZE);
+      const cy = Math.floor((rect.y + rect.h / 2) / TILE_SIZE);
+
+      // Santa grabs any ladder his centre passes through
+      if (step > 0 && this.isLadder(cx, cy) && this.centreInLadder(rect, cx, cy)) {
+        return { x: cx, y: cy };
+      }
+      if (grounded) {
+        // Prefer the cell under Santa's centre, else whichever foot is on the floor
+        const landY = Math.round(rect.y / TILE_SIZE);
+        const feet = [cx, Math.floor(rect.x / TILE_SIZE), Math.floor((rect.x + rect.w - 0.001) / TILE_SIZE)];
+        const landX = feet.find(fx => this.isStandable(fx, landY));
+        return landX === undefined ? null : { x: landX, y: landY };
+      }
+    }
+    return null;
+  }
+
+  private centreInLadder(rect: Rect, cx: number, cy: number): boolean {
+    const centreX = rect.x + rect.w / 2;
+    const centreY = rect.y + rect.h / 2;
+    const lx = cx * TILE_SIZE + 4;
+    return centreX > lx && centreX < lx + 8 && centreY > cy * TILE_SIZE && centreY < (cy + 1) * TILE_SIZE;
+  }
+
+  /**
+   * Mirrors World.handleCollisions against solid tiles. Returns true when landing.
+   * One-way platforms only catch a falling body whose feet were above them before the move (`prevY`).
+   */
+  private resolve(rect: Rect, velocity: { x: number; y: number }, axis: 'x' | 'y', prevY = rect.y): boolean {
+    let grounded = false;
+    const x0 = Math.floor(rect.x / TILE_SIZE);
+    const x1 = Math.floor((rect.x + rect.w - 0.001) / TILE_SIZE);
+    const y0 = Math.floor(rect.y / TILE_SIZE);
+    const y1 = Math.floor((rect.y + rect.h - 0.001) / TILE_SIZE);
+
+    for (let ty = y0; ty <= y1; ty++) {
+      for (let tx = x0; tx <= x1; tx++) {
+        if (tx < 0 || tx >= this.width) continue;
+        if (this.isOneWay(tx, ty)) {
+          if (axis === 'x' || velocity.y >= 0 || prevY < (ty + 1) * TILE_SIZE) continue;
+        } else if (!this.isSolid(tx, ty)) {
+          continue;
+        }
+        if (!overlaps(rect, tx, ty)) continue; // Already pushed clear by an earlier tile
+        if (axis === 'x') {
+          if (velocity.x > 0) rect.x = tx * TILE_SIZE - rect.w;
+          else if (velocity.x < 0) rect.x = (tx + 1) * TILE_SIZE;
+          velocity.x = 0;
+        } else if (velocity.y > 0) {
+          rect.y = ty * TILE_SIZE - rect.h;
+          velocity.y = 0;
+        } else if (velocity.y < 0) {
+          rect.y = (ty + 1) * TILE_SIZE;
+          velocity.y = 0;
+          grounded = true;
+        }
+      }
+    }
+    return grounded;
+  }
+}
+
+// Marks every platform stop as a one-way floor so Santa can walk and jump on and off it
+const overlayStops = (rows: string[], platforms: PlatformPath[]): string[] => {
+  const overlaid = [...rows];
+  for (const platform of platforms) {
+    for (const stop of platform.path) {
+      const row = overlaid[stop.y];
+      if (row === undefined) continue;
+      const end = Math.min(stop.x + platform.width, row.length);
+      overlaid[stop.y] = row.slice(0, stop.x) + '-'.repeat(Math.max(0, end - stop.x)) + row.slice(end);
+    }
+  }
+  return overlaid;
+};
+
+/**
+ * Empty floor cells the player can reach from the spawn point.
+ * These are the only places gifts and decorations are put down.
+ */
+export const findPlacementSpots = (graph: NavGraph, rows: string[], spawn: { x: number; y: number }) => {
+  const reachable = graph.reachableFrom(spawn.x, spawn.y);
+  const spots: { x: number; y: number }[] = [];
+  for (const idx of reachable) {
+    const { x, y } = graph.cell(idx);
+    // The floor must be in the map itself, not a platform stop
+    if (rows[y][x] === ' ' && graph.isFloorSpot(x, y) && rows[y - 1][x] !== ' ') spots.push({ x, y });
+  }
+  return spots.sort((a, b) => a.y - b.y || a.x - b.x);
+};
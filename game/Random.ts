@@ -0,0 +1,85 @@
+/**
+ * Seedable pseudo-random number generator (mulberry32).
+ * Every random decision in the game goes through one of these so a run can be replayed from its seed.
+ */
+export class Random {
+  readonly seed: number;
+  private state: number;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /** Uniform float in [0, 1). Drop-in replacement for Math.random(). */
+  next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /** Uniform float in [min, max). */
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /** Uniform integer in [0, max). */
+  int(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(items.length)];
+  }
+
+  /** Picks an item with probability proportional to its weight. */
+  pickWeighted<T>(items: readonly T[], weight: (item: T) => number): T {
+    const total = items.reduce((sum, item) => sum + weight(item), 0);
+    let roll = this.next() * total;
+    for (const item of items) {
+      roll -= weight(item);
+      if (roll < 0) return item;
+    }
+    return items[items.length - 1];
+  }
+
+  /** Fisher-Yates shuffle, in place. */
+  shuffle<T>(items: T[]): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = this.int(i + 1);
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+  }
+
+  /**
+   * Derives an independent stream from this generator's seed.
+   * Used to keep cosmetic effects from shifting the gameplay sequence.
+   */
+  fork(label: string): Random {
+    return new Random(hashSeed(`${this.seed}:${label}`));
+  }
+}
+
+/** FNV-1a hash, used to turn arbitrary text into a 32-bit seed. */
+export const hashSeed = (text: string): number => {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const createSeed = (): number => Math.floor(Math.random() * 4294967296) >>> 0;
+
+/**
+ * Reads `?seed=` from the page URL. Numbers are used as-is, any other text is hashed.
+ */
+export const readSeedFromUrl = (): number | null => {
+  const param = new URLSearchParams(window.location.search).get('seed');
+  if (param === null || param === '') return null;
+  return /^\d+$/.test(param) ? Number(param) >>> 0 : hashSeed(param);
+};
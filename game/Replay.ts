@@ -0,0 +1,164 @@
+import { FIXED_TIMESTEP } from '../constants';
+import { InputState, Level, LevelData } from '../types';
+import { parseLevel, toLevelData } from './LevelLoader';
+
+export const REPLAY_FORMAT = 'santa-scramble-replay';
+export const REPLAY_VERSION = 3; // 2: one input stream per player, 3: rules in the header
+/**
+ * Version of the gameplay rules in World. Bump it with any change that alters how the same inputs play out
+ * (scoring, physics, enemies, ...): a replay only plays back on the rules it was recorded with, as it would
+ * silently desync on any others.
+ */
+export const RULES_VERSION = 1;
+
+/**
+ * A recorded run: the seed and boards it was played on plus each player's input for every simulation tick.
+ * Feeding the same inputs into a World built from the same seed and boards reproduces the run exactly.
+ */
+export interface Replay {
+  format: typeof REPLAY_FORMAT;
+  version: number;
+  rules: number; // RULES_VERSION at recording time
+  timestep: number;
+  seed: number;
+  levels: LevelData[];
+  ticks: number;
+  inputs: string[]; // One per player, Santa first, each run-length encoded (see encodeInputs())
+  score: number; // Everyone's points together
+}
+
+// 32 symbols, one per possible input state (5 bits: x, y, jump)
+const SYMBOLS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdef';
+
+const packInput = (input: InputState): number =>
+  (input.x + 1) | ((input.y + 1) << 2) | ((input.jump ? 1 : 0) << 4);
+
+const unpackInput = (code: number): InputState => ({
+  x: (code & 3) - 1,
+  y: ((code >> 2) & 3) - 1,
+  jump: (code & 16) !== 0
+});
+
+/**
+ * Encodes per-tick inputs as runs of `<symbol><count>`, e.g. "F120N8F40".
+ * Held keys produce long runs, so a minute of play is usually a few hundred bytes.
+ */
+export const encodeInputs = (inputs: InputState[]): string => {
+  let out = '';
+  let i = 0;
+  while (i < inputs.length) {
+    const code = packInput(inputs[i]);
+    let run = 1;
+    while (i + run < inputs.length && packInput(inputs[i + run]) === code) run++;
+    out += SYMBOLS[code] + run;
+    i += run;
+  }
+  return out;
+};
+
+export const decodeInputs = (encoded: string): InputState[] => {
+  const inputs: InputState[] = [];
+  const pattern = /([A-Za-f])(\d+)/y;
+  let position = 0;
+  while (position < encoded.length) {
+    pattern.lastIndex = position;
+    const match = pattern.exec(encoded);
+    if (!match) throw new Error(`Corrupt replay input stream at character ${position}`);
+    const state = unpackInput(SYMBOLS.indexOf(match[1]));
+    for (let i = 0; i < Number(match[2]); i++) inputs.push({ ...state });
+    position = pattern.lastIndex;
+  }
+  return inputs;
+};
+
+/** Collects the inputs of the run in progress. */
+export class ReplayRecorder {
+  private inputs: InputState[][]; // Per player
+  private seed: number;
+  private levels: Level[];
+
+  constructor(seed: number, levels: Level[], players = 1) {
+    this.seed = seed;
+    this.levels = levels;
+    this.inputs = Array.from({ length: players }, () => []);
+  }
+
+  /** @param inputs This tick's input for each player. */
+  record(inputs: InputState[]) {
+    inputs.forEach((input, player) => this.inputs[player].push({ ...input }));
+  }
+
+  finish(score: number): Replay {
+    return {
+      format: REPLAY_FORMAT,
+      version: REPLAY_VERSION,
+      rules: RULES_VERSION,
+      timestep: FIXED_TIMESTEP,
+      seed: this.seed,
+      levels: this.levels.map(toLevelData),
+      ticks: this.inputs[0].length,
+      inputs: this.inputs.map(encodeInputs),
+      score
+    };
+  }
+}
+
+/** Hands the recorded input streams back one tick at a time. */
+export class ReplayPlayer {
+  readonly seed: number;
+  readonly levels: Level[];
+  private inputs: InputState[][]; // Per player
+  private cursor = 0;
+
+  constructor(replay: Replay) {
+    this.seed = replay.seed;
+    this.levels = replay.levels.map(data => parseLevel(data));
+    this.inputs = replay.inputs.map(decodeInputs);
+  }
+
+  get players(): number {
+    return this.inputs.length;
+  }
+
+  get tick(): number {
+    return this.cursor;
+  }
+
+  get totalTicks(): number {
+    return this.inputs[0].length;
+  }
+
+  /** Next tick's input for each player, or null once the recording is exhausted. */
+  next(): InputState[] | null {
+    if (this.cursor >= this.totalTicks) return null;
+    const tick = this.cursor++;
+    return this.inputs.map(stream => stream[tick]);
+  }
+}
+
+export const serializeReplay = (replay: Replay): string => JSON.stringify(replay) + '\n';
+
+export const parseReplay = (text: string): Replay => {
+  let data: Partial<Replay>;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Replay is not valid JSON: ${(err as Error).message}`);
+  }
+  if (data?.format !== REPLAY_FORMAT) throw new Error('Not a Santa Scramble replay file');
+  // Older files carry no rules version, and the rules have changed since, so they would desync
+  if (typeof data.version === 'number' && data.version < REPLAY_VERSION) {
+    throw new Error(`Replay version ${data.version} is from an older build of the game and can't be played back`);
+  }
+  if (data.version !== REPLAY_VERSION) throw new Error(`Unsupported replay version ${data.version}`);
+  if (data.rules !== RULES_VERSION) {
+    throw new Error(`Replay was recorded with different game rules (version ${data.rules ?? 'none'}, this build plays ${RULES_VERSION})`);
+  }
+  if (data.timestep !== FIXED_TIMESTEP) throw new Error('Replay was recorded with a different simulation timestep');
+  const streams = data.inputs;
+  if (typeof data.seed !== 'number' || !Array.isArray(streams) || streams.length === 0
+      || streams.some(stream => typeof stream !== 'string') || !Array.isArray(data.levels) || data.levels.length === 0) {
+    throw new Error('Replay is missing its seed, inputs or levels');
+  }
+  return data as Replay;
+};
@@ -0,0 +1,31 @@
+/** Solid tile types and the map glyph for each. Every kind except 'oneWay' blocks from all sides. */
+export type TileKind = 'floor' | 'ice' | 'conveyor' | 'crumble' | 'oneWay';
+
+export const TILE_GLYPHS: Record<string, TileKind> = {
+  '#': 'floor',
+  'I': 'ice',
+  '<': 'conveyor',
+  '>': 'conveyor',
+  'X': 'crumble',
+  '-': 'oneWay'
+};
+
+// Ice: Santa's speed only eases towards what the keys ask for, so he slides on and off it
+export const ICE_GRIP = 2.5; // Fraction of the speed difference made up per second
+
+// Conveyors carry anything standing on them
+export const CONVEYOR_SPEED = 40; // px per second
+
+// Crumbling snow gives way a moment after Santa steps on it and grows back later
+export const CRUMBLE_DELAY = 0.5; // seconds of shaking before it collapses
+export const CRUMBLE_RESPAWN = 6; // seconds until it is back
+
+/** True for glyphs that block movement from every side. */
+export const isSolidGlyph = (glyph: string): boolean =>
+  glyph in TILE_GLYPHS && TILE_GLYPHS[glyph] !== 'oneWay';
+
+/** True for platforms that can be jumped up through and stood on. */
+export const isOneWayGlyph = (glyph: string): boolean => TILE_GLYPHS[glyph] === 'oneWay';
+
+/** Conveyor direction for a glyph: -1 pushes left, 1 pushes right, 0 for other tiles. */
+export const conveyorPush = (glyph: string): number => glyph === '<' ? -1 : glyph === '>' ? 1 : 0;
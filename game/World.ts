@@ -0,0 +1,1671 @@
+import {
+  TILE_SIZE, WORLD_WIDTH, WORLD_HEIGHT, GRAVITY, JUMP_FORCE,
+  MOVE_SPEED, CLIMB_SPEED, DEATH_FREEZE, DEATH_DURATION, INVULNERABLE_TIME
+} from '../constants';
+import { EntityType, InputState, Level, PlatformPath, PowerUpKind, PowerUpTimers, Rect } from '../types';
+import { NavGraph, findPlacementSpots } from './NavGraph';
+import { EnemyAI, EnemyBrain, ENEMY_PROFILES } from './EnemyAI';
+import { Difficulty, difficultyForLevel, scaleProfile } from './Difficulty';
+import {
+  COLOUR_RUN_BONUS, GIFT_COLOURS, LOAD_BONUS, RAINBOW_BONUS, SACK_CAPACITY, carryPenalty, giftColour
+} from './Gifts';
+import {
+  HAZARD_GLYPHS, HAZARD_HITBOXES, HAZARD_POINTS, HAZARD_RESPAWN, HazardKind,
+  ICICLE_SHAKE, ICICLE_TRIGGER_RANGE, ICICLE_TRIGGER_X
+} from './Hazards';
+import {
+  COAL_INTERVAL, KRAMPUS_BONUS, KRAMPUS_HEAD, KRAMPUS_HEALTH, KRAMPUS_HEIGHT, KRAMPUS_HIT_POINTS, KRAMPUS_HURT_TIME,
+  KRAMPUS_PHASES, KRAMPUS_PHASE_TIME, KRAMPUS_SPEED, KRAMPUS_WIDTH, KrampusPhase, MAX_MINIONS, POUND_INTERVAL,
+  POUND_JUMP, POUND_LEAP_SPEED, SHOCKWAVE_RANGE, SHOCKWAVE_SPEED, SUMMON_WINDUP
+} from './Krampus';
+import { Random } from './Random';
+import {
+  CONVEYOR_SPEED, CRUMBLE_DELAY, CRUMBLE_RESPAWN, ICE_GRIP, TILE_GLYPHS, TileKind, conveyorPush
+} from './Tiles';
+
+export interface WorldEntity {
+  id: number;
+  type: EntityType;
+  sprite: string; // Base texture key chosen at spawn (gift colour, tree variant...)
+  rect: Rect;
+  prevPos: { x: number; y: number }; // rect position at the start of the current step, for interpolation
+  velocity: { x: number; y: number };
+  grounded: boolean;
+  onLadder: boolean;
+  direction: number; // 1 or -1
+  brain?: EnemyBrain; // Enemies only
+  turret?: { cooldown: number; windup: number }; // Snowmen only: seconds until the next throw / release
+  powerUp?: PowerUpKind; // Power-up pickups only
+  floor?: Solid | null; // Tile landed on during the last move, null while airborne
+  dropFrom?: Solid; // One-way platform being dropped through (Down+Jump)
+  platform?: PlatformRoute; // Moving platforms only
+  hazard?: HazardState; // Hazards only
+  spawner?: SpawnerState; // Grotto doors only
+  boss?: BossState; // Krampus only
+  life?: number; // Shockwaves only: seconds before it dies out
+  gift?: WorldEntity; // Dropped gifts only: the sack gift it came from
+  player?: PlayerState; // Santa and Mrs. Claus only
+  owner?: PlayerState; // Dropped gifts and triggered icicles: who scores if it takes something out
+}
+
+/**
+ * One player's Santa and everything kept per player: score, lives, respawn protection, stomp chain, power-ups,
+ * gift combo and sack.
+ */
+export interface PlayerState {
+  index: number; // 0 for Santa, 1 for Mrs. Claus
+  entity: WorldEntity; // Replaced on every board
+  score: number;
+  lives: number;
+  dying: boolean; // Caught in the current death sequence
+  out: boolean; // Out of lives; off the board for the rest of the run
+  invulnerableTimer: number; // Seconds of post-respawn invulnerability left
+  stompChain: number; // Stomps since they last stood on something
+  cell: number | null; // Last nav cell they stood in, a target enemies route to
+  downHeld: boolean; // Down was held last step; dropping a gift takes a fresh press
+  powerUps: Partial<Record<PowerUpKind, number>>; // Seconds left on each active power-up
+  combo: number; // Gift score multiplier
+  comboTimer: number; // Seconds left to grab another gift before the combo resets
+  sack: WorldEntity[]; // Gifts carried on 'deliver' and 'boss' boards
+}
+
+/** Krampus's health and what he is up to. */
+export interface BossState {
+  health: number;
+  maxHealth: number;
+  phase: KrampusPhase;
+  phaseTimer: number; // Seconds left in the current phase
+  attackTimer: number; // Seconds until the phase's next leap, throw or summon
+  hurtTimer: number; // Seconds left flinching after a hit; he can't be hurt again meanwhile
+  pounding: boolean; // In the air on a ground-pound leap
+}
+
+/** What an icicle or frozen puddle is doing. A hazard that has struck is gone until `timer` runs out. */
+export interface HazardState {
+  kind: HazardKind;
+  state: 'ready' | 'shaking' | 'falling' | 'gone';
+  timer: number; // Seconds left shaking, or until it grows back
+  home: { x: number; y: number }; // Where it grows back, in world units
+}
+
+/** Where a moving platform is headed. Its solid follows the entity's rect. */
+export interface PlatformRoute {
+  solid: Solid;
+  stops: { x: number; y: number }[]; // World units
+  speed: number; // World units per second
+  loop: boolean;
+  next: number; // Index of the stop being travelled to
+  dir: number; // 1 forwards along the stops, -1 on the way back
+}
+
+/** A grotto door's clock and the enemies queued to come out of it. */
+export interface SpawnerState {
+  timer: number; // Seconds until the next scheduled release
+  warning: number; // Seconds left of the telegraph before the front of the queue steps out
+  queue: EntityType[]; // Scheduled releases and enemies sent back after falling out of the world
+}
+
+/** A solid tile. Its kind decides how it treats whatever stands on it. */
+export interface Solid extends Rect {
+  kind: TileKind;
+  push?: number; // Conveyors: -1 carries left, 1 carries right
+  crumbleTimer?: number; // Crumbling snow: seconds of shaking left once Santa has stepped on it
+  regrowTimer?: number; // Crumbling snow: seconds until a collapsed block is back; it is gone while > 0
+}
+
+export type WorldEvent =
+  | { type: 'levelStart'; levelNumber: number; level: Level }
+  | { type: 'levelIntroOver' }
+  | { type: 'levelClear'; bonus: number }
+  | { type: 'bonus'; bonus: number; hurry: boolean }
+  | { type: 'giftCollected'; x: number; y: number; points: number; multiplier: number }
+  | { type: 'combo'; player: number; multiplier: number }
+  | { type: 'setBonus'; set: 'colour' | 'rainbow'; x: number; y: number; points: number }
+  | { type: 'sack'; player: number; carried: number; capacity: number } // capacity is 0 on 'collect' boards
+  | { type: 'giftsDelivered'; x: number; y: number; count: number; points: number; loadBonus: number }
+  | { type: 'score'; player: number; score: number }
+  | { type: 'lives'; player: number; lives: number }
+  | { type: 'snowballShattered'; x: number; y: number }
+  | { type: 'tileCrumbled'; x: number; y: number }
+  | { type: 'hazardShattered'; x: number; y: number; kind: HazardKind }
+  | { type: 'spawnWarning'; x: number; y: number }
+  | { type: 'enemySpawned'; x: number; y: number }
+  | { type: 'boss'; health: number; maxHealth: number } // maxHealth is 0 on boards without Krampus
+  | { type: 'groundPound'; x: number; y: number }
+  | { type: 'bossHit'; x: number; y: number; points: number }
+  | { type: 'bossDefeated'; x: number; y: number; points: number }
+  | { type: 'giftLanded'; x: number; y: number } // A dropped gift missed and went back where it was found
+  | { type: 'enemyDefeated'; x: number; y: number; points: number }
+  | { type: 'powerUpCollected'; x: number; y: number; kind: PowerUpKind }
+  | { type: 'powerUps'; player: number; timers: PowerUpTimers }
+  | { type: 'gameOver' };
+
+const STARTING_LIVES = 3;
+const LEVEL_INTRO_TIME = 2; // seconds the board is shown frozen behind the "LEVEL N" card
+const EXTRA_ENEMY_MIN_DISTANCE = 8; // tiles between Santa's spawn and a difficulty spawn
+
+/** Texture prefix for each player: Santa, then Mrs. Claus in co-op. */
+export const PLAYER_SPRITES = ['santa', 'mrs_claus'];
+const NO_INPUT: InputState = { x: 0, y: 0, jump: false }; // For a player step() wasn't given input for
+
+// Bonus timer: drains in steps of BONUS_STEP and is tallied into the score when the board is cleared
+const BONUS_STEP = 100;
+const HURRY_TIME = 10; // seconds left when the HUD starts warning
+const TALLY_STEP = 20; // points moved from bonus to score per simulation step
+const TALLY_HOLD = 1; // seconds the finished tally stays up before the next board
+
+// Snowman turrets lob snowballs along their own floor
+const SNOWBALL_SIZE = 6;
+const SNOWBALL_RANGE = TILE_SIZE * 10;
+const SNOWBALL_COOLDOWN = 2.4; // seconds between throws
+const SNOWBALL_WINDUP = 0.4; // seconds the snowman stands still with its arm raised before releasing
+const SNOWBALL_LOFT = 130; // initial upward speed; the horizontal speed is solved so the arc comes down on the target
+const SNOWBALL_GRAVITY = GRAVITY * 0.5;
+
+// Gift combos: each gift within COMBO_WINDOW of the last raises the multiplier
+const COMBO_WINDOW = 2.5; // seconds
+const MAX_COMBO = 5;
+
+// Stomping: points for each enemy in a chain of stomps without touching the ground
+const STOMP_POINTS = [200, 400, 800, 1600, 3200];
+const STOMP_BOUNCE = JUMP_FORCE * 0.7;
+const STOMP_TOLERANCE = 4; // px Santa's feet may already be below the enemy's head and still count
+
+// Grotto doors glow for this long before an enemy steps out
+const SPAWN_WARNING = 1.2; // seconds
+
+const SHOCKWAVE_HEIGHT = 8;
+
+// Moving platforms fill the top half of their row, so riders stand where they would on a floor tile
+const PLATFORM_HEIGHT = TILE_SIZE / 2;
+
+// Power-ups: one is placed on every board; effects end on expiry, on death and when the board changes
+export const POWER_UP_DURATIONS: Record<PowerUpKind, number> = { hammer: 8, cocoa: 10, shield: 15 };
+const POWER_UP_KINDS = Object.keys(POWER_UP_DURATIONS) as PowerUpKind[];
+const HAMMER_POINTS = 300;
+const COCOA_SPEED_BOOST = 1.5;
+const SHIELD_GRACE = 1; // seconds of invulnerability after the shield absorbs a hit
+
+/**
+ * The game simulation: entities, tile physics, scoring, lives and level progression, for Santa alone or in
+ * co-op with Mrs. Claus.
+ * Has no dependency on Three.js or the DOM, so it can be stepped from Node with scripted input.
+ * Observers (the renderer, the React HUD) learn about changes through drainEvents().
+ */
+export class World {
+  entities: WorldEntity[] = [];
+  solids: Solid[] = [];
+  ladders: Rect[] = [];
+  players: PlayerState[] = []; // Out players stay in the list, off the board
+
+  levelNumber = 1; // GameState.level, keeps counting once the campaign loops
+  simTime = 0; // Seconds of simulated time
+  gameOver = false;
+  deathTimer = 0; // Seconds left in the death sequence; the rest of the world is frozen while > 0
+  difficulty: Difficulty;
+  introTimer = 0; // Seconds left of the level intro; nothing moves while > 0
+  levelTime = 0; // Seconds left to clear the board
+  tallyBonus = 0; // Bonus still to be counted into the score after a clear
+  private tallyHold = 0;
+  private clearing = false;
+
+  private campaign: Level[];
+  private rng: Random;
+  private entityIdCounter = 0;
+  private events: WorldEvent[] = [];
+  private navGraph: NavGraph;
+  private enemyAI: EnemyAI;
+  private boardGiftCounts = new Map<string, number>(); // Gifts of each colour placed on this board
+  private giftsCollected: string[] = []; // Colours in pickup order, for set bonuses
+  private countedGifts = new Set<WorldEntity>(); // Gifts already in giftsCollected, however often they are picked up again
+  private playerCount: number;
+
+  /** @param playerCount 1, or 2 for co-op with Mrs. Claus. */
+  constructor(campaign: Level[], seed: number, playerCount = 1) {
+    this.campaign = campaign;
+    this.playerCount = playerCount;
+    this.reset(seed);
+  }
+
+  get seed(): number {
+    return this.rng.seed;
+  }
+
+  get currentLevel(): Level {
+    return this.campaign[(this.levelNumber - 1) % this.campaign.length];
+  }
+
+  /** Everyone's points together, e.g. for the replay file. */
+  get score(): number {
+    return this.players.reduce((sum, player) => sum + player.score, 0);
+  }
+
+  /** Players with lives left, i.e. the ones on the board. */
+  get activePlayers(): PlayerState[] {
+    return this.players.filter(player => !player.out);
+  }
+
+  /** Starts a new run from the first board. */
+  reset(seed: number) {
+    this.rng = new Random(seed);
+    this.players = Array.from({ length: this.playerCount }, (_, index) => ({
+      index,
+      entity: null,
+      score: 0,
+      lives: STARTING_LIVES,
+      dying: false,
+      out: false,
+      invulnerableTimer: 0,
+      stompChain: 0,
+      cell: null,
+      downHeld: false,
+      powerUps: {},
+      combo: 1,
+      comboTimer: 0,
+      sack: []
+    }));
+    this.levelNumber = 1;
+    this.simTime = 0;
+    this.gameOver = false;
+    this.clearing = false;
+    this.tallyBonus = 0;
+    this.deathTimer = 0;
+    for (const player of this.players) {
+      this.emit({ type: 'score', player: player.index, score: player.score });
+      this.emit({ type: 'lives', player: player.index, lives: player.lives });
+      this.emitPowerUps(player);
+    }
+    this.initLevel();
+  }
+
+  /** Returns and clears everything that happened since the last call. */
+  drainEvents(): WorldEvent[] {
+    const events = this.events;
+    this.events = [];
+    return events;
+  }
+
+  /** Advances the simulation by one fixed step. @param inputs One per player, Santa first. */
+  step(inputs: InputState[], dt: number) {
+    if (this.gameOver) return;
+    this.simTime += dt;
+    for (const entity of this.entities) {
+      entity.prevPos.x = entity.rect.x;
+      entity.prevPos.y = entity.rect.y;
+    }
+
+    if (this.introTimer > 0) {
+      this.introTimer -= dt;
+      if (this.introTimer <= 0) this.emit({ type: 'levelIntroOver' });
+      return;
+    }
+
+    if (this.clearing) {
+      this.updateTally(dt);
+      return;
+    }
+
+    if (this.deathTimer > 0) {
+      this.updateDeath(dt);
+      return;
+    }
+    for (const player of this.activePlayers) player.invulnerableTimer = Math.max(0, player.invulnerableTimer - dt);
+    for (const player of this.activePlayers) {
+      this.updatePowerUps(player, dt);
+      this.updateCombo(player, dt);
+    }
+    this.updateLevelTimer(dt);
+    if (this.deathTimer > 0) return;
+    this.updateTiles(dt);
+    this.updatePlatforms(dt);
+    if (this.deathTimer > 0) return;
+
+    for (const player of this.activePlayers) {
+      this.updatePlayer(player, inputs[player.index] ?? NO_INPUT, dt);
+      if (this.deathTimer > 0) return;
+      this.trackPlayerCell(player);
+    }
+    this.updateHazards(dt);
+    if (this.deathTimer > 0) return;
+    this.updateSpawners(dt);
+
+    for (const entity of [...this.entities]) {
+      // Skip anything taken off the board earlier this step (e.g. minions that went down with Krampus)
+      if (entity.player || !this.entities.includes(entity)) continue;
+
+      if (entity.type === EntityType.GIFT) {
+        const player = this.playerTouching(entity.rect);
+        if (player) {
+          if (this.currentLevel.objective !== 'collect') this.pickUpGift(player, entity);
+          else this.collectGift(player, entity);
+        }
+      } else if (entity.type === EntityType.CHIMNEY) {
+        const player = this.activePlayers.find(p => p.sack.length > 0 && this.checkCollision(p.entity.rect, entity.rect));
+        if (player) this.deliverGifts(player, entity);
+      } else if (entity.type === EntityType.ENEMY_REINDEER || entity.type === EntityType.ENEMY_SNOWMAN) {
+        this.updateEnemy(entity, dt);
+        if (this.deathTimer > 0) return;
+      } else if (entity.type === EntityType.POWERUP) {
+        const player = this.playerTouching(entity.rect);
+        if (player) this.collectPowerUp(player, entity);
+      } else if (entity.type === EntityType.SNOWBALL) {
+        this.updateSnowball(entity, dt);
+        if (this.deathTimer > 0) return;
+      } else if (entity.type === EntityType.BOSS) {
+        this.updateKrampus(entity, dt);
+        if (this.deathTimer > 0) return;
+      } else if (entity.type === EntityType.SHOCKWAVE) {
+        this.updateShockwave(entity, dt);
+        if (this.deathTimer > 0) return;
+      } else if (entity.type === EntityType.DROPPED_GIFT) {
+        this.updateDroppedGift(entity, dt);
+      }
+    }
+
+    const cleared = this.currentLevel.objective === 'boss'
+      ? !this.entities.some(e => e.boss)
+      : !this.entities.some(e => e.type === EntityType.GIFT) && this.players.every(p => p.sack.length === 0);
+    if (cleared && this.entities.length > 0) {
+      this.clearing = true;
+      this.tallyBonus = this.bonus;
+      this.tallyHold = TALLY_HOLD;
+      this.emit({ type: 'levelClear', bonus: this.tallyBonus });
+    }
+  }
+
+  private pickGiftSprite(): string {
+    return this.rng.pickWeighted(GIFT_COLOURS, colour => colour.weight).sprite;
+  }
+
+  private collectGift(player: PlayerState, gift: WorldEntity) {
+    const multiplier = player.comboTimer > 0 ? Math.min(player.combo + 1, MAX_COMBO) : 1;
+    const points = Math.round(giftColour(gift.sprite).points * this.difficulty.giftValue) * multiplier;
+    this.setCombo(player, multiplier);
+    player.comboTimer = COMBO_WINDOW;
+
+    this.removeEntity(gift);
+    this.addScore(player, points);
+    const x = gift.rect.x + gift.rect.w / 2;
+    const y = gift.rect.y + TILE_SIZE / 2;
+    this.emit({ type: 'giftCollected', x, y, points, multiplier });
+
+    this.checkGiftSets(player, gift, x, y);
+  }
+
+  // Deliver boards: the gift goes into the sack and only scores once it is down a chimney
+  private pickUpGift(player: PlayerState, gift: WorldEntity) {
+    if (player.sack.length >= SACK_CAPACITY) return;
+    this.removeEntity(gift);
+    player.sack.push(gift);
+    this.emitSack(player);
+    const x = gift.rect.x + gift.rect.w / 2;
+    const y = gift.rect.y + TILE_SIZE / 2;
+    this.checkGiftSets(player, gift, x, y);
+  }
+
+  private deliverGifts(player: PlayerState, chimney: WorldEntity) {
+    const count = player.sack.length;
+    const giftPoints = player.sack.reduce(
+      (sum, gift) => sum + Math.round(giftColour(gift.sprite).points * this.difficulty.giftValue), 0);
+    const loadBonus = LOAD_BONUS[Math.min(count, LOAD_BONUS.length) - 1];
+    player.sack = [];
+    this.emitSack(player);
+
+    this.addScore(player, giftPoints + loadBonus);
+    this.emit({
+      type: 'giftsDelivered',
+      x: chimney.rect.x + chimney.rect.w / 2,
+      y: chimney.rect.y + chimney.rect.h,
+      count,
+      points: giftPoints,
+      loadBonus
+    });
+  }
+
+  // Gifts in the sack go back where they were found, so the board can still be cleared
+  private spillSack(player: PlayerState) {
+    if (player.sack.length === 0) return;
+    for (const gift of player.sack) {
+      this.snapToRect(gift);
+      this.entities.push(gift);
+    }
+    player.sack = [];
+    this.emitSack(player);
+  }
+
+  private emitSack(player: PlayerState) {
+    const capacity = this.currentLevel.objective === 'collect' ? 0 : SACK_CAPACITY;
+    this.emit({ type: 'sack', player: player.index, carried: player.sack.length, capacity });
+  }
+
+  /** Gifts spilled on a death and picked up again count towards sets only the first time. */
+  private checkGiftSets(player: PlayerState, gift: WorldEntity, x: number, y: number) {
+    if (this.countedGifts.has(gift)) return;
+    this.countedGifts.add(gift);
+    const { sprite } = gift;
+    this.giftsCollected.push(sprite);
+    const collected = this.giftsCollected;
+    const colourCount = this.boardGiftCounts.get(sprite) ?? 0;
+    const recent = collected.slice(-colourCount);
+    if (colourCount >= 2 && recent.length === colourCount && recent.every(s => s === sprite)) {
+      this.awardSetBonus(player, 'colour', COLOUR_RUN_BONUS * colourCount, x, y);
+    }
+
+    const colours = this.boardGiftCounts.size;
+    if (colours >= 3 && collected.length === colours && new Set(collected).size === colours) {
+      this.awardSetBonus(player, 'rainbow', RAINBOW_BONUS, x, y);
+    }
+  }
+
+  private awardSetBonus(player: PlayerState, set: 'colour' | 'rainbow', points: number, x: number, y: number) {
+    this.addScore(player, points);
+    this.emit({ type: 'setBonus', set, x, y, points });
+  }
+
+  private addScore(player: PlayerState, points: number) {
+    player.score += points;
+    this.emit({ type: 'score', player: player.index, score: player.score });
+  }
+
+  private updateCombo(player: PlayerState, dt: number) {
+    if (player.comboTimer <= 0) return;
+    player.comboTimer -= dt;
+    if (player.comboTimer <= 0) this.setCombo(player, 1);
+  }
+
+  private setCombo(player: PlayerState, multiplier: number) {
+    if (multiplier === player.combo) return;
+    player.combo = multiplier;
+    this.emit({ type: 'combo', player: player.index, multiplier });
+  }
+
+  /** What the bonus timer is currently worth: startBonus scaled by the time left, in BONUS_STEP steps. */
+  get bonus(): number {
+    const { startBonus, timeLimit } = this.difficulty;
+    return Math.ceil((startBonus * this.levelTime) / timeLimit / BONUS_STEP) * BONUS_STEP;
+  }
+
+  // Counts the remaining bonus into the score (everyone still in gets it), then moves on to the next board
+  private updateTally(dt: number) {
+    if (this.tallyBonus > 0) {
+      const amount = Math.min(this.tallyBonus, TALLY_STEP);
+      this.tallyBonus -= amount;
+      for (const player of this.activePlayers) this.addScore(player, amount);
+      this.emit({ type: 'bonus', bonus: this.tallyBonus, hurry: false });
+      return;
+    }
+    this.tallyHold -= dt;
+    if (this.tallyHold <= 0) {
+      this.clearing = false;
+      this.levelNumber++;
+      this.initLevel();
+    }
+  }
+
+  private emitBonus() {
+    this.emit({ type: 'bonus', bonus: this.bonus, hurry: this.levelTime <= HURRY_TIME });
+  }
+
+  private emit(event: WorldEvent) {
+    this.events.push(event);
+  }
+
+  private initLevel() {
+    this.entities = [];
+    this.solids = [];
+    this.ladders = [];
+    for (const player of this.players) {
+      player.comboTimer = 0;
+      this.setCombo(player, 1);
+      this.clearPowerUps(player);
+      player.sack = [];
+      this.emitSack(player);
+    }
+    this.giftsCollected = [];
+    this.countedGifts.clear();
+
+    const level = this.currentLevel;
+    const mapTemplate = level.rows;
+    this.difficulty = difficultyForLevel(this.levelNumber);
+    this.introTimer = LEVEL_INTRO_TIME;
+    this.levelTime = this.difficulty.timeLimit;
+    this.navGraph = new NavGraph(mapTemplate);
+    this.enemyAI = new EnemyAI(this.navGraph, this.rng);
+
+    for (let y = 0; y < mapTemplate.length; y++) {
+      const row = mapTemplate[y];
+      for (let x = 0; x < row.length; x++) {
+        const char = row[x];
+        const pos = { x: x * TILE_SIZE, y: y * TILE_SIZE };
+
+        const kind = TILE_GLYPHS[char];
+        if (kind) {
+          const solid: Solid = { x: pos.x, y: pos.y, w: TILE_SIZE, h: TILE_SIZE, kind };
+          if (kind === 'conveyor') solid.push = conveyorPush(char);
+          if (kind === 'crumble') {
+            solid.crumbleTimer = 0;
+            solid.regrowTimer = 0;
+          }
+          this.solids.push(solid);
+        } else if (char === 'H') {
+          this.ladders.push({ x: pos.x + 4, y: pos.y, w: 8, h: TILE_SIZE });
+        }
+      }
+    }
+
+    for (const route of level.platforms) this.createPlatform(route);
+
+    let fixedGifts = 0; // Hand-placed 'G' gifts count towards the board's gift total
+
+    for (let y = 0; y < mapTemplate.length; y++) {
+      const row = mapTemplate[y];
+      for (let x = 0; x < row.length; x++) {
+        const char = row[x];
+        const pos = { x: x * TILE_SIZE, y: y * TILE_SIZE };
+
+        if (char === '@') {
+          for (const player of this.activePlayers) this.placePlayer(player, pos.x, pos.y);
+        } else if (char === 'R') {
+          this.createEnemy(pos.x, pos.y, EntityType.ENEMY_REINDEER, 'reindeer_0');
+        } else if (char === 'S') {
+          this.createEnemy(pos.x, pos.y, EntityType.ENEMY_SNOWMAN, 'snowman');
+        } else if (char === 'G') {
+          this.createEntity(pos.x, pos.y, EntityType.GIFT, this.pickGiftSprite());
+          fixedGifts++;
+        } else if (char === 'T') {
+          this.createEntity(pos.x, pos.y, EntityType.DECORATION, `tree_${this.rng.int(2)}`);
+        } else if (char === 'C') {
+          this.createEntity(pos.x, pos.y, EntityType.CHIMNEY, 'chimney');
+        } else if (char in HAZARD_GLYPHS) {
+          const kind = HAZARD_GLYPHS[char];
+          const hazard = this.createEntity(pos.x, pos.y, EntityType.HAZARD, kind);
+          hazard.hazard = { kind, state: 'ready', timer: 0, home: pos };
+        } else if (char === 'D') {
+          const door = this.createEntity(pos.x, pos.y, EntityType.SPAWNER, 'grotto');
+          // Doors start part-way through their clock so they don't all open together
+          door.spawner = { timer: this.rng.range(0.5, 1) * level.spawners.interval, warning: 0, queue: [] };
+        } else if (char === 'K') {
+          this.createKrampus(pos.x, pos.y);
+        }
+      }
+    }
+
+    // Only cells Santa can actually reach from '@' (riding platforms if need be) are eligible for gifts and trees
+    const placementGraph = level.platforms.length > 0
+      ? new NavGraph(mapTemplate, { platforms: level.platforms })
+      : this.navGraph;
+    const placementSpots = findPlacementSpots(placementGraph, mapTemplate, level.spawn);
+    const reachableFloorLevels: { y: number; spots: number[] }[] = [];
+    for (const spot of placementSpots) {
+      let floor = reachableFloorLevels.find(fl => fl.y === spot.y);
+      if (!floor) {
+        floor = { y: spot.y, spots: [] };
+        reachableFloorLevels.push(floor);
+      }
+      floor.spots.push(spot.x);
+    }
+
+    const { min, max } = level.gifts;
+    const totalGiftsCount = min + this.rng.int(max - min + 1) + this.difficulty.extraGifts;
+    const occupiedPositions = new Set<string>();
+    let giftsPlaced = fixedGifts;
+
+    const shuffledReachableLevels = this.rng.shuffle([...reachableFloorLevels]);
+    for (const floor of shuffledReachableLevels) {
+      if (giftsPlaced < totalGiftsCount) {
+        const randomX = this.rng.pick(floor.spots);
+        this.createEntity(randomX * TILE_SIZE, floor.y * TILE_SIZE, EntityType.GIFT, this.pickGiftSprite());
+        occupiedPositions.add(`${randomX},${floor.y}`);
+        giftsPlaced++;
+      }
+    }
+
+    const remainingGiftsNeeded = totalGiftsCount - giftsPlaced;
+    const extraCandidateSpots: { x: number; y: number }[] = [];
+    reachableFloorLevels.forEach(floor => {
+      floor.spots.forEach(x => {
+        if (!occupiedPositions.has(`${x},${floor.y}`)) {
+          extraCandidateSpots.push({ x, y: floor.y });
+        }
+      });
+    });
+
+    for (let i = 0; i < remainingGiftsNeeded && extraCandidateSpots.length > 0; i++) {
+      const index = this.rng.int(extraCandidateSpots.length);
+      const spot = extraCandidateSpots.splice(index, 1)[0];
+      this.createEntity(spot.x * TILE_SIZE, spot.y * TILE_SIZE, EntityType.GIFT, this.pickGiftSprite());
+      occupiedPositions.add(`${spot.x},${spot.y}`);
+      giftsPlaced++;
+    }
+
+    // One power-up per board, on a free reachable spot
+    if (extraCandidateSpots.length > 0) {
+      const spot = extraCandidateSpots.splice(this.rng.int(extraCandidateSpots.length), 1)[0];
+      const kind = this.rng.pick(POWER_UP_KINDS);
+      const pickup = this.createEntity(spot.x * TILE_SIZE, spot.y * TILE_SIZE, EntityType.POWERUP, `powerup_${kind}`);
+      pickup.powerUp = kind;
+      occupiedPositions.add(`${spot.x},${spot.y}`);
+    }
+
+    // Later boards get extra reindeer, kept well away from Santa's spawn
+    const enemySpots = extraCandidateSpots.filter(spot =>
+      Math.abs(spot.x - level.spawn.x) + Math.abs(spot.y - level.spawn.y) >= EXTRA_ENEMY_MIN_DISTANCE);
+    for (let i = 0; i < this.difficulty.extraEnemies && enemySpots.length > 0; i++) {
+      const spot = enemySpots.splice(this.rng.int(enemySpots.length), 1)[0];
+      this.createEnemy(spot.x * TILE_SIZE, spot.y * TILE_SIZE, EntityType.ENEMY_REINDEER, 'reindeer_0');
+    }
+
+    // Procedural Trees with randomization across available variants
+    for (const floor of reachableFloorLevels) {
+      let treesOnThisFloor = 0;
+      const availableX = floor.spots.filter(x => !occupiedPositions.has(`${x},${floor.y}`));
+      this.rng.shuffle(availableX);
+      for (const x of availableX) {
+        if (treesOnThisFloor < 4) {
+          if (this.rng.next() < 0.25) {
+            const treeVariant = this.rng.int(2);
+            this.createEntity(x * TILE_SIZE, floor.y * TILE_SIZE, EntityType.DECORATION, `tree_${treeVariant}`);
+            treesOnThisFloor++;
+          }
+        }
+      }
+    }
+
+    this.boardGiftCounts.clear();
+    for (const entity of this.entities) {
+      if (entity.type === EntityType.GIFT) {
+        this.boardGiftCounts.set(entity.sprite, (this.boardGiftCounts.get(entity.sprite) ?? 0) + 1);
+      }
+    }
+
+    this.emit({ type: 'levelStart', levelNumber: this.levelNumber, level });
+    this.emitBonus();
+    this.emitBoss();
+  }
+
+  private createEntity(x: number, y: number, type: EntityType, sprite: string): WorldEntity {
+    const entity: WorldEntity = {
+      id: ++this.entityIdCounter,
+      type,
+      sprite,
+      rect: { x, y, w: TILE_SIZE, h: TILE_SIZE },
+      prevPos: { x, y },
+      velocity: { x: 0, y: 0 },
+      grounded: false,
+      onLadder: false,
+      direction: 1
+    };
+
+    if (type === EntityType.PLAYER || type === EntityType.ENEMY_REINDEER || type === EntityType.ENEMY_SNOWMAN) {
+      entity.rect.w = 12;
+      entity.rect.x += 2;
+      entity.prevPos.x = entity.rect.x;
+    }
+
+    this.entities.push(entity);
+    return entity;
+  }
+
+  // Co-op players all start on '@'
+  private placePlayer(player: PlayerState, x: number, y: number) {
+    player.entity = this.createEntity(x, y, EntityType.PLAYER, `${PLAYER_SPRITES[player.index]}_idle`);
+    player.entity.player = player;
+    player.invulnerableTimer = 0;
+    player.stompChain = 0;
+    player.cell = this.navGraph.index(x / TILE_SIZE, y / TILE_SIZE);
+    player.downHeld = false;
+  }
+
+  private createEnemy(x: number, y: number, type: EntityType, sprite: string): WorldEntity {
+    const enemy = this.createEntity(x, y, type, sprite);
+    enemy.brain = this.enemyAI.createBrain(type, scaleProfile(ENEMY_PROFILES[type]!, this.difficulty));
+    if (type === EntityType.ENEMY_SNOWMAN) {
+      enemy.turret = { cooldown: this.rng.range(0.5, SNOWBALL_COOLDOWN), windup: 0 };
+    }
+    return enemy;
+  }
+
+  private createPlatform(route: PlatformPath) {
+    const stops = route.path.map(stop => ({ x: stop.x * TILE_SIZE, y: (stop.y + 1) * TILE_SIZE - PLATFORM_HEIGHT }));
+    const horizontal = route.path.every(stop => stop.y === route.path[0].y);
+    const platform = this.createEntity(stops[0].x, stops[0].y, EntityType.PLATFORM, horizontal ? 'sled' : 'elevator');
+    platform.rect.w = route.width * TILE_SIZE;
+    platform.rect.h = PLATFORM_HEIGHT;
+    const solid: Solid = { ...platform.rect, kind: 'floor' };
+    this.solids.push(solid);
+    platform.platform = { solid, stops, speed: route.speed * TILE_SIZE, loop: !!route.loop, next: 1, dir: 1 };
+  }
+
+  /**
+   * Moves every platform along its route. Riders go with it (walls stop them, ceilings crush them);
+   * anything else in its way is pushed ahead, and crushed if there is no room.
+   */
+  private updatePlatforms(dt: number) {
+    for (const platform of this.entities) {
+      if (!platform.platform) continue;
+      const { solid } = platform.platform;
+      const { dx, dy } = this.advancePlatform(platform, dt);
+      if (dx === 0 && dy === 0) continue;
+      solid.x = platform.rect.x;
+      solid.y = platform.rect.y;
+
+      for (const body of [...this.entities]) {
+        if (!body.player && !body.brain) continue;
+        if (body.floor === solid) {
+          this.shove(body, dx, 0, solid);
+          if (!this.shove(body, 0, dy, solid)) this.crush(body);
+        } else if (this.checkCollision(body.rect, solid)) {
+          const pushX = dx > 0 ? solid.x + solid.w - body.rect.x : dx < 0 ? solid.x - body.rect.x - body.rect.w : 0;
+          const pushY = dy > 0 ? solid.y + solid.h - body.rect.y : dy < 0 ? solid.y - body.rect.y - body.rect.h : 0;
+          if (!this.shove(body, pushX, pushY, solid)) {
+            this.crush(body);
+          } else if (pushY > 0) {
+            // Scooped up from below: now riding
+            body.floor = solid;
+            body.grounded = true;
+            body.velocity.y = Math.max(0, body.velocity.y);
+          }
+        }
+        if (this.deathTimer > 0) return;
+      }
+    }
+  }
+
+  /** Moves a platform towards its next stop. Returns how far it went. */
+  private advancePlatform(platform: WorldEntity, dt: number): { dx: number; dy: number } {
+    const route = platform.platform!;
+    const { rect } = platform;
+    const start = { x: rect.x, y: rect.y };
+    let travel = route.speed * dt;
+    for (let i = 0; i < route.stops.length && travel > 0; i++) {
+      const stop = route.stops[route.next];
+      const dx = stop.x - rect.x;
+      const dy = stop.y - rect.y;
+      const distance = Math.abs(dx) + Math.abs(dy); // Every leg follows a row or a column
+      if (distance > travel) {
+        rect.x += Math.sign(dx) * travel;
+        rect.y += Math.sign(dy) * travel;
+        break;
+      }
+      rect.x = stop.x;
+      rect.y = stop.y;
+      travel -= distance;
+      if (route.loop) {
+        route.next = (route.next + 1) % route.stops.length;
+      } else {
+        if (route.next + route.dir < 0 || route.next + route.dir >= route.stops.length) route.dir = -route.dir;
+        route.next += route.dir;
+      }
+    }
+    return { dx: rect.x - start.x, dy: rect.y - start.y };
+  }
+
+  /** Moves a body by (dx, dy), stopping at the first wall in the way. Returns false if it was stopped. */
+  private shove(body: WorldEntity, dx: number, dy: number, ignore: Solid): boolean {
+    let clear = true;
+    for (const [axis, delta] of [['x', dx], ['y', dy]] as const) {
+      if (delta === 0) continue;
+      const size = axis === 'x' ? body.rect.w : body.rect.h;
+      body.rect[axis] += delta;
+      for (const solid of this.solids) {
+        if (solid === ignore || solid.kind === 'oneWay' || solid.regrowTimer > 0) continue;
+        if (!this.checkCollision(body.rect, solid)) continue;
+        body.rect[axis] = delta > 0 ? solid[axis] - size : solid[axis] + (axis === 'x' ? solid.w : solid.h);
+        clear = false;
+      }
+    }
+    // The world edges are walls too
+    const maxX = WORLD_WIDTH * TILE_SIZE - body.rect.w;
+    if (body.rect.x < 0 || body.rect.x > maxX) {
+      body.rect.x = Math.max(0, Math.min(body.rect.x, maxX));
+      clear = false;
+    }
+    return clear;
+  }
+
+  private crush(body: WorldEntity) {
+    if (body.player) {
+      this.handlePlayerHit(body.player, true);
+    } else {
+      this.removeEntity(body);
+      this.emit({ type: 'enemyDefeated', x: body.rect.x + body.rect.w / 2, y: body.rect.y + body.rect.h / 2, points: 0 });
+    }
+  }
+
+  private updatePlayer(state: PlayerState, input: InputState, dt: number) {
+    const player = state.entity;
+    const ladderParams = this.checkOverlap(player.rect, this.ladders);
+    player.onLadder = !!ladderParams;
+
+    if (player.onLadder) {
+      player.velocity.x = input.x * this.moveSpeed(state) * 0.8;
+      player.velocity.y = input.y * CLIMB_SPEED;
+      player.grounded = true;
+
+      if (input.y !== 0 && ladderParams) {
+        const ladderCenter = ladderParams.x + ladderParams.w / 2;
+        const playerCenter = player.rect.x + player.rect.w / 2;
+        if (Math.abs(ladderCenter - playerCenter) < 4) {
+          const diff = ladderCenter - playerCenter;
+          player.rect.x += diff * 10 * dt;
+        }
+      }
+    } else {
+      const targetSpeed = input.x * this.moveSpeed(state);
+      if (player.floor?.kind === 'ice') {
+        player.velocity.x += (targetSpeed - player.velocity.x) * Math.min(1, ICE_GRIP * dt);
+      } else {
+        player.velocity.x = targetSpeed;
+      }
+      player.velocity.y -= GRAVITY * dt;
+      if (input.jump && player.grounded) {
+        if (input.y < 0 && player.floor?.kind === 'oneWay') {
+          player.dropFrom = player.floor;
+        } else {
+          player.velocity.y = JUMP_FORCE * carryPenalty(state.sack.length).jumpForce;
+        }
+        player.grounded = false;
+      }
+    }
+
+    if (input.x !== 0) {
+      player.direction = Math.sign(input.x);
+    }
+
+    this.moveEntity(player, dt);
+    this.constrainToWorld(player);
+    if (player.grounded || player.onLadder) state.stompChain = 0;
+
+    // On boss boards, pressing Down in mid-air drops a gift out of the sack
+    const down = input.y < 0;
+    if (down && !state.downHeld && !player.grounded && !player.onLadder && state.sack.length > 0
+        && this.currentLevel.objective === 'boss') {
+      this.dropGift(state);
+    }
+    state.downHeld = down;
+
+    const floor = player.floor;
+    if (floor?.kind === 'crumble' && floor.crumbleTimer === 0 && floor.regrowTimer === 0) {
+      floor.crumbleTimer = CRUMBLE_DELAY;
+    }
+  }
+
+  /** Crumbling snow: shakes, collapses, then grows back once nothing is standing in its way. */
+  private updateTiles(dt: number) {
+    for (const solid of this.solids) {
+      if (solid.kind !== 'crumble') continue;
+      if (solid.crumbleTimer > 0) {
+        solid.crumbleTimer = Math.max(0, solid.crumbleTimer - dt);
+        if (solid.crumbleTimer === 0) {
+          solid.regrowTimer = CRUMBLE_RESPAWN;
+          this.emit({ type: 'tileCrumbled', x: solid.x + solid.w / 2, y: solid.y + solid.h / 2 });
+        }
+      } else if (solid.regrowTimer > 0) {
+        solid.regrowTimer = Math.max(0, solid.regrowTimer - dt);
+        if (solid.regrowTimer === 0 && this.entities.some(e => this.checkCollision(e.rect, solid))) {
+          solid.regrowTimer = dt; // Try again next step
+        }
+      }
+    }
+  }
+
+  /**
+   * Icicles shake once Santa walks underneath, then fall; frozen puddles spike whatever steps in.
+   * Either one takes out the first enemy or Santa it touches, shatters, and grows back later.
+   */
+  private updateHazards(dt: number) {
+    for (const entity of [...this.entities]) {
+      const hazard = entity.hazard;
+      if (!hazard || !this.entities.includes(entity)) continue;
+
+      if (hazard.state === 'gone') {
+        hazard.timer = Math.max(0, hazard.timer - dt);
+        if (hazard.timer === 0 && !this.regrowHazard(entity)) hazard.timer = dt; // Try again next step
+        continue;
+      }
+
+      if (hazard.kind === 'icicle') {
+        if (hazard.state === 'ready') {
+          const below = this.activePlayers.find(player => this.isUnderIcicle(entity, player.entity));
+          if (below) {
+            entity.owner = below;
+            hazard.state = 'shaking';
+            hazard.timer = ICICLE_SHAKE;
+          }
+          continue; // Hanging icicles are harmless
+        }
+        if (hazard.state === 'shaking') {
+          hazard.timer -= dt;
+          if (hazard.timer <= 0) hazard.state = 'falling';
+          continue;
+        }
+        entity.velocity.y -= GRAVITY * dt;
+        entity.rect.y += entity.velocity.y * dt;
+        const hitbox = this.hazardHitbox(entity);
+        const hitsTile = this.solids.some(solid =>
+          solid.kind !== 'oneWay' && !(solid.regrowTimer > 0) && this.checkCollision(hitbox, solid));
+        if (hitsTile || entity.rect.y + entity.rect.h < 0) {
+          this.shatterHazard(entity);
+          continue;
+        }
+      }
+
+      const hitbox = this.hazardHitbox(entity);
+      const enemy = this.entities.find(e =>
+        (e.type === EntityType.ENEMY_REINDEER || e.type === EntityType.ENEMY_SNOWMAN) && this.checkCollision(hitbox, e.rect));
+      const victim = this.activePlayers.find(player =>
+        player.invulnerableTimer <= 0 && this.checkCollision(hitbox, player.entity.rect));
+      if (enemy) {
+        // Icicles credit whoever shook them loose, puddles whoever is nearest
+        this.defeatEnemy(enemy, HAZARD_POINTS, entity.owner ?? this.nearestPlayer(enemy));
+        this.shatterHazard(entity);
+      } else if (victim) {
+        this.shatterHazard(entity);
+        this.handlePlayerHit(victim);
+        if (this.deathTimer > 0) return;
+      }
+    }
+  }
+
+  /** Santa is close enough below the icicle, with nothing solid in between. */
+  private isUnderIcicle(icicle: WorldEntity, player: WorldEntity): boolean {
+    const centerX = icicle.rect.x + icicle.rect.w / 2;
+    if (Math.abs(player.rect.x + player.rect.w / 2 - centerX) > ICICLE_TRIGGER_X) return false;
+    if (player.rect.y >= icicle.rect.y) return false;
+
+    const column = Math.floor(centerX / TILE_SIZE);
+    const top = Math.round(icicle.rect.y / TILE_SIZE);
+    const bottom = Math.floor(player.rect.y / TILE_SIZE);
+    if (top - bottom > ICICLE_TRIGGER_RANGE) return false;
+    for (let y = bottom + 1; y < top; y++) {
+      if (this.navGraph.isSolid(column, y)) return false;
+    }
+    return true;
+  }
+
+  private hazardHitbox(entity: WorldEntity): Rect {
+    const box = HAZARD_HITBOXES[entity.hazard!.kind];
+    return { x: entity.rect.x + box.x, y: entity.rect.y + box.y, w: box.w, h: box.h };
+  }
+
+  private shatterHazard(entity: WorldEntity) {
+    const hazard = entity.hazard!;
+    const hitbox = this.hazardHitbox(entity);
+    hazard.state = 'gone';
+    hazard.timer = HAZARD_RESPAWN;
+    entity.velocity.y = 0;
+    entity.owner = undefined;
+    this.emit({ type: 'hazardShattered', x: hitbox.x + hitbox.w / 2, y: hitbox.y + hitbox.h / 2, kind: hazard.kind });
+  }
+
+  /** Puts a hazard back where it started. Returns false while Santa is standing in the way. */
+  private regrowHazard(entity: WorldEntity): boolean {
+    const hazard = entity.hazard!;
+    entity.rect.x = hazard.home.x;
+    entity.rect.y = hazard.home.y;
+    this.snapToRect(entity);
+    const hitbox = this.hazardHitbox(entity);
+    if (this.activePlayers.some(player => this.checkCollision(hitbox, player.entity.rect))) return false;
+    hazard.state = 'ready';
+    return true;
+  }
+
+  /**
+   * Each grotto door releases a reindeer every `interval` seconds while the board holds fewer than `max`
+   * enemies. Enemies queued at a door (recycled ones first) step out after SPAWN_WARNING seconds of telegraph.
+   */
+  private updateSpawners(dt: number) {
+    const { interval, max } = this.currentLevel.spawners;
+    for (const door of this.entities.filter(e => e.spawner)) {
+      const spawner = door.spawner!;
+      if (spawner.warning > 0) {
+        spawner.warning -= dt;
+        if (spawner.warning <= 0) this.releaseEnemy(door);
+        continue;
+      }
+
+      if (spawner.queue.length === 0) {
+        spawner.timer -= dt;
+        if (spawner.timer > 0 || this.enemyCount() >= max) continue;
+        spawner.timer = interval;
+        spawner.queue.push(EntityType.ENEMY_REINDEER);
+      }
+      spawner.warning = SPAWN_WARNING;
+      this.emit({ type: 'spawnWarning', x: door.rect.x + door.rect.w / 2, y: door.rect.y + door.rect.h / 2 });
+    }
+  }
+
+  private releaseEnemy(door: WorldEntity) {
+    const type = door.spawner!.queue.shift()!;
+    this.createEnemy(door.rect.x, door.rect.y, type, type === EntityType.ENEMY_SNOWMAN ? 'snowman' : 'reindeer_0');
+    this.emit({ type: 'enemySpawned', x: door.rect.x + door.rect.w / 2, y: door.rect.y + door.rect.h / 2 });
+  }
+
+  /** Enemies on the board, counting the ones waiting at a door to come back. */
+  private enemyCount(): number {
+    let count = 0;
+    for (const entity of this.entities) {
+      if (entity.brain) count++;
+      else if (entity.spawner) count += entity.spawner.queue.length;
+    }
+    return count;
+  }
+
+  /** Sends an enemy that fell out of the world back in through a random grotto door. */
+  private recycleEnemy(enemy: WorldEntity) {
+    this.removeEntity(enemy);
+    this.rng.pick(this.entities.filter(e => e.spawner)).spawner!.queue.push(enemy.type);
+  }
+
+  /** Drains the bonus. Running out of time costs everyone a life; the clock is refilled on respawn. */
+  private updateLevelTimer(dt: number) {
+    const bonus = this.bonus;
+    const hurry = this.levelTime <= HURRY_TIME;
+    this.levelTime = Math.max(0, this.levelTime - dt);
+    if (this.bonus !== bonus || (this.levelTime <= HURRY_TIME) !== hurry) this.emitBonus();
+    if (this.levelTime === 0) {
+      for (const player of this.activePlayers) this.handlePlayerHit(player, true);
+    }
+  }
+
+  private moveSpeed(state: PlayerState): number {
+    const boost = state.powerUps.cocoa ? COCOA_SPEED_BOOST : 1;
+    return MOVE_SPEED * boost * carryPenalty(state.sack.length).moveSpeed;
+  }
+
+  private trackPlayerCell(state: PlayerState) {
+    const player = state.entity;
+    if (!player.grounded && !player.onLadder) return;
+    const x = Math.floor((player.rect.x + player.rect.w / 2) / TILE_SIZE);
+    const y = Math.round(player.rect.y / TILE_SIZE);
+    if (this.navGraph.isStandable(x, y)) state.cell = this.navGraph.index(x, y);
+  }
+
+  /** The player on the board closest to an entity, the one enemies and Krampus go after. */
+  private nearestPlayer(entity: WorldEntity): PlayerState {
+    const distance = (player: PlayerState) =>
+      Math.abs(player.entity.rect.x - entity.rect.x) + Math.abs(player.entity.rect.y - entity.rect.y);
+    return this.activePlayers.reduce((best, player) => distance(player) < distance(best) ? player : best);
+  }
+
+  /** The first player on the board overlapping a rect, if any. */
+  private playerTouching(rect: Rect): PlayerState | undefined {
+    return this.activePlayers.find(player => this.checkCollision(player.entity.rect, rect));
+  }
+
+  private updateEnemy(entity: WorldEntity, dt: number) {
+    const target = this.nearestPlayer(entity);
+    const brain = entity.brain!;
+    const { enemySpeed } = this.currentLevel;
+    const baseSpeed = entity.type === EntityType.ENEMY_REINDEER ? enemySpeed.reindeer : enemySpeed.snowman;
+    const speed = baseSpeed * this.difficulty.enemySpeed;
+
+    // Same ladder rule as the player: no gravity while holding one
+    entity.onLadder = !!this.checkOverlap(entity.rect, this.ladders);
+    const aiming = entity.turret ? this.updateTurret(entity, target, dt) : false;
+    if (aiming) {
+      entity.velocity.x = 0;
+    } else {
+      this.enemyAI.steer(entity, brain, target.cell, target.entity.rect.x + target.entity.rect.w / 2, speed, dt);
+    }
+
+    if (entity.onLadder) {
+      entity.velocity.y = brain.climbDir * speed;
+    } else {
+      entity.velocity.y -= GRAVITY * dt;
+    }
+
+    this.moveEntity(entity, dt);
+    this.constrainToWorld(entity);
+
+    // Patrolling enemies turn around at walls
+    if (entity.velocity.x === 0 && brain.path.length === 0 && !aiming) {
+      entity.direction *= -1;
+    }
+
+    for (const player of this.activePlayers) {
+      if (!this.checkCollision(player.entity.rect, entity.rect)) continue;
+      if (player.powerUps.hammer) this.defeatEnemy(entity, HAMMER_POINTS, player);
+      else if (this.isStomp(player.entity, entity)) this.stompEnemy(player, entity);
+      else this.handlePlayerHit(player);
+      if (this.deathTimer > 0 || !this.entities.includes(entity)) return;
+    }
+  }
+
+  /** Santa is falling and his feet were above the enemy's head at the start of the step. */
+  private isStomp(player: WorldEntity, enemy: WorldEntity): boolean {
+    if (!enemy.brain?.profile.stompable || player.velocity.y >= 0 || player.onLadder) return false;
+    return player.prevPos.y >= enemy.rect.y + enemy.rect.h - STOMP_TOLERANCE;
+  }
+
+  private stompEnemy(player: PlayerState, enemy: WorldEntity) {
+    const points = STOMP_POINTS[Math.min(player.stompChain, STOMP_POINTS.length - 1)];
+    player.stompChain++;
+    player.entity.velocity.y = STOMP_BOUNCE;
+    player.entity.grounded = false;
+    this.defeatEnemy(enemy, points, player);
+  }
+
+  /** @param scorer Who gets the points; null when nobody does (crushed enemies, Krampus's minions). */
+  private defeatEnemy(enemy: WorldEntity, points: number, scorer: PlayerState | null) {
+    this.removeEntity(enemy);
+    if (scorer) this.addScore(scorer, points);
+    this.emit({ type: 'enemyDefeated', x: enemy.rect.x + enemy.rect.w / 2, y: enemy.rect.y + enemy.rect.h / 2, points });
+  }
+
+  private collectPowerUp(player: PlayerState, pickup: WorldEntity) {
+    const kind = pickup.powerUp!;
+    this.removeEntity(pickup);
+    player.powerUps[kind] = POWER_UP_DURATIONS[kind];
+    this.emit({ type: 'powerUpCollected', x: pickup.rect.x + pickup.rect.w / 2, y: pickup.rect.y + TILE_SIZE / 2, kind });
+    this.emitPowerUps(player);
+  }
+
+  /** Counts active power-ups down, dropping expired ones. The HUD hears about it once per whole second. */
+  private updatePowerUps(player: PlayerState, dt: number) {
+    const { powerUps } = player;
+    let changed = false;
+    for (const kind of POWER_UP_KINDS) {
+      const remaining = powerUps[kind];
+      if (remaining === undefined) continue;
+      const next = remaining - dt;
+      if (next <= 0) delete powerUps[kind];
+      else powerUps[kind] = next;
+      if (next <= 0 || Math.ceil(next) !== Math.ceil(remaining)) changed = true;
+    }
+    if (changed) this.emitPowerUps(player);
+  }
+
+  private clearPowerUps(player: PlayerState) {
+    if (Object.keys(player.powerUps).length === 0) return;
+    player.powerUps = {};
+    this.emitPowerUps(player);
+  }
+
+  private emitPowerUps(player: PlayerState) {
+    const timers: PowerUpTimers = {};
+    for (const kind of POWER_UP_KINDS) {
+      if (player.powerUps[kind] !== undefined) timers[kind] = Math.ceil(player.powerUps[kind]!);
+    }
+    this.emit({ type: 'powerUps', player: player.index, timers });
+  }
+
+  /** Counts down a snowman's throw. Returns true while it is standing still to aim. */
+  private updateTurret(snowman: WorldEntity, target: PlayerState, dt: number): boolean {
+    const turret = snowman.turret!;
+    const player = target.entity;
+    const dx = player.rect.x - snowman.rect.x;
+
+    if (turret.windup > 0) {
+      turret.windup -= dt;
+      if (Math.abs(dx) > 1) snowman.direction = Math.sign(dx);
+      if (turret.windup <= 0) {
+        this.throwSnowball(snowman, player);
+        turret.cooldown = SNOWBALL_COOLDOWN;
+      }
+      return true;
+    }
+
+    turret.cooldown -= dt;
+    if (turret.cooldown <= 0 && snowman.grounded && this.hasLineOfSight(snowman, player)) {
+      turret.windup = SNOWBALL_WINDUP;
+      snowman.direction = Math.sign(dx) || snowman.direction;
+      return true;
+    }
+    return false;
+  }
+
+  /** True when the player is on the same floor within range, with no wall in between. */
+  private hasLineOfSight(from: WorldEntity, to: WorldEntity): boolean {
+    if (Math.abs(to.rect.y - from.rect.y) > TILE_SIZE / 2) return false;
+    const fromX = from.rect.x + from.rect.w / 2;
+    const toX = to.rect.x + to.rect.w / 2;
+    if (Math.abs(toX - fromX) > SNOWBALL_RANGE) return false;
+
+    const row = Math.round(from.rect.y / TILE_SIZE);
+    const x0 = Math.floor(Math.min(fromX, toX) / TILE_SIZE);
+    const x1 = Math.floor(Math.max(fromX, toX) / TILE_SIZE);
+    for (let x = x0; x <= x1; x++) {
+      if (this.navGraph.isSolid(x, row)) return false;
+    }
+    return true;
+  }
+
+  /** Lobs a snowball (or Krampus's coal) in an arc that comes down on Santa. */
+  private throwSnowball(thrower: WorldEntity, player: WorldEntity, sprite = 'snowball') {
+    const startX = thrower.rect.x + thrower.rect.w / 2;
+    const targetX = player.rect.x + player.rect.w / 2;
+    const flightTime = (2 * SNOWBALL_LOFT) / SNOWBALL_GRAVITY;
+    const speedX = Math.min(Math.max(Math.abs(targetX - startX) / flightTime, 60), 240);
+
+    const ball = this.createEntity(startX - SNOWBALL_SIZE / 2, thrower.rect.y + thrower.rect.h / 2, EntityType.SNOWBALL, sprite);
+    ball.rect.w = SNOWBALL_SIZE;
+    ball.rect.h = SNOWBALL_SIZE;
+    ball.direction = thrower.direction;
+    ball.velocity = { x: thrower.direction * speedX, y: SNOWBALL_LOFT };
+  }
+
+  private updateSnowball(ball: WorldEntity, dt: number) {
+    ball.velocity.y -= SNOWBALL_GRAVITY * dt;
+    ball.rect.x += ball.velocity.x * dt;
+    ball.rect.y += ball.velocity.y * dt;
+
+    const outOfWorld = ball.rect.x + ball.rect.w < 0 || ball.rect.x > WORLD_WIDTH * TILE_SIZE || ball.rect.y < 0;
+    const hitsTile = this.solids.some(solid =>
+      solid.kind !== 'oneWay' && !(solid.regrowTimer > 0) && this.checkCollision(ball.rect, solid));
+    if (outOfWorld || hitsTile) {
+      this.shatterSnowball(ball);
+    } else {
+      const player = this.playerTouching(ball.rect);
+      if (!player) return;
+      this.shatterSnowball(ball);
+      this.handlePlayerHit(player);
+    }
+  }
+
+  private shatterSnowball(ball: WorldEntity) {
+    this.removeEntity(ball);
+    this.emit({ type: 'snowballShattered', x: ball.rect.x + ball.rect.w / 2, y: ball.rect.y + ball.rect.h / 2 });
+  }
+
+  private createKrampus(x: number, y: number) {
+    const krampus = this.createEntity(x, y, EntityType.BOSS, 'krampus');
+    krampus.rect.w = KRAMPUS_WIDTH;
+    krampus.rect.h = KRAMPUS_HEIGHT;
+    krampus.boss = {
+      health: KRAMPUS_HEALTH,
+      maxHealth: KRAMPUS_HEALTH,
+      phase: KRAMPUS_PHASES[0],
+      phaseTimer: KRAMPUS_PHASE_TIME,
+      attackTimer: POUND_INTERVAL,
+      hurtTimer: 0,
+      pounding: false
+    };
+  }
+
+  /**
+   * Krampus turns to face Santa and works through his phases: ground-pound leaps that send shockwaves
+   * along the floor, lobbed coal while he stalks closer, and summoning reindeer. Touching him hurts,
+   * except from above: stomping his head (or dropping a gift on it) is the only way to hurt him.
+   */
+  private updateKrampus(krampus: WorldEntity, dt: number) {
+    const boss = krampus.boss!;
+    const player = this.nearestPlayer(krampus).entity;
+    boss.hurtTimer = Math.max(0, boss.hurtTimer - dt);
+    boss.phaseTimer -= dt;
+    if (boss.phaseTimer <= 0 && krampus.grounded) this.nextKrampusPhase(krampus);
+
+    const dx = player.rect.x + player.rect.w / 2 - (krampus.rect.x + krampus.rect.w / 2);
+    if (krampus.grounded && Math.abs(dx) > TILE_SIZE / 2) krampus.direction = Math.sign(dx);
+
+    boss.attackTimer -= dt;
+    krampus.velocity.x = 0;
+    if (boss.phase === 'pound') {
+      if (boss.pounding) {
+        krampus.velocity.x = krampus.direction * POUND_LEAP_SPEED;
+      } else if (boss.attackTimer <= 0 && krampus.grounded) {
+        krampus.velocity.y = POUND_JUMP;
+        boss.pounding = true;
+        boss.attackTimer = POUND_INTERVAL;
+      }
+    } else if (boss.phase === 'coal') {
+      if (Math.abs(dx) > TILE_SIZE * 2 && this.hasFloorAhead(krampus)) krampus.velocity.x = krampus.direction * KRAMPUS_SPEED;
+      if (boss.attackTimer <= 0) {
+        this.throwSnowball(krampus, player, 'coal');
+        boss.attackTimer = COAL_INTERVAL;
+      }
+    } else if (boss.attackTimer <= 0) {
+      this.summonReindeer(krampus);
+      boss.attackTimer = Infinity; // Once per phase
+    }
+
+    krampus.velocity.y -= GRAVITY * dt;
+    this.moveEntity(krampus, dt);
+    this.constrainToWorld(krampus);
+    if (boss.pounding && krampus.grounded) {
+      boss.pounding = false;
+      this.groundPound(krampus);
+    }
+
+    for (const state of this.activePlayers) {
+      const santa = state.entity;
+      if (!this.checkCollision(santa.rect, krampus.rect)) continue;
+      const stomp = santa.velocity.y < 0 && !santa.onLadder
+        && santa.prevPos.y >= krampus.rect.y + krampus.rect.h - STOMP_TOLERANCE;
+      if (stomp) {
+        santa.velocity.y = STOMP_BOUNCE;
+        santa.grounded = false;
+        this.hurtKrampus(krampus, state);
+      } else if (state.powerUps.hammer) {
+        this.hurtKrampus(krampus, state);
+      } else {
+        this.handlePlayerHit(state);
+      }
+      if (this.deathTimer > 0 || !this.entities.includes(krampus)) return;
+    }
+  }
+
+  private nextKrampusPhase(krampus: WorldEntity) {
+    const boss = krampus.boss!;
+    boss.phase = KRAMPUS_PHASES[(KRAMPUS_PHASES.indexOf(boss.phase) + 1) % KRAMPUS_PHASES.length];
+    boss.phaseTimer = KRAMPUS_PHASE_TIME;
+    if (boss.phase === 'pound') boss.attackTimer = POUND_INTERVAL;
+    else if (boss.phase === 'coal') boss.attackTimer = COAL_INTERVAL;
+    else {
+      // He roars (with the grotto doors' embers) before the reindeer appear
+      boss.attackTimer = SUMMON_WINDUP;
+      this.emit({ type: 'spawnWarning', x: krampus.rect.x + krampus.rect.w / 2, y: krampus.rect.y + krampus.rect.h });
+    }
+  }
+
+  /** True when the floor continues under the tile Krampus is about to walk into. */
+  private hasFloorAhead(krampus: WorldEntity): boolean {
+    const x = krampus.direction > 0 ? krampus.rect.x + krampus.rect.w : krampus.rect.x - 1;
+    const row = Math.round(krampus.rect.y / TILE_SIZE) - 1;
+    const column = Math.floor(x / TILE_SIZE);
+    return this.navGraph.isSolid(column, row) || this.navGraph.isOneWay(column, row);
+  }
+
+  /** A reindeer appears on each side of Krampus where there is room, up to MAX_MINIONS enemies about. */
+  private summonReindeer(krampus: WorldEntity) {
+    let room = MAX_MINIONS - this.entities.filter(e => e.brain).length;
+    for (const side of [-1, 1]) {
+      if (room <= 0) return;
+      const x = side < 0 ? krampus.rect.x - TILE_SIZE : krampus.rect.x + krampus.rect.w;
+      const column = Math.floor((x + TILE_SIZE / 2) / TILE_SIZE);
+      if (x < 0 || x + TILE_SIZE > WORLD_WIDTH * TILE_SIZE) continue;
+      if (this.navGraph.isSolid(column, Math.round(krampus.rect.y / TILE_SIZE))) continue;
+      this.createEnemy(x, krampus.rect.y, EntityType.ENEMY_REINDEER, 'reindeer_0');
+      this.emit({ type: 'enemySpawned', x: x + TILE_SIZE / 2, y: krampus.rect.y + TILE_SIZE / 2 });
+      room--;
+    }
+  }
+
+  /** Krampus lands from a leap: a shockwave runs along the floor away from him on both sides. */
+  private groundPound(krampus: WorldEntity) {
+    for (const dir of [-1, 1]) {
+      const x = dir < 0 ? krampus.rect.x - TILE_SIZE : krampus.rect.x + krampus.rect.w;
+      const wave = this.createEntity(x, krampus.rect.y, EntityType.SHOCKWAVE, 'shockwave');
+      wave.rect.h = SHOCKWAVE_HEIGHT;
+      wave.direction = dir;
+      wave.velocity.x = dir * SHOCKWAVE_SPEED;
+      wave.life = SHOCKWAVE_RANGE / SHOCKWAVE_SPEED;
+    }
+    this.emit({ type: 'groundPound', x: krampus.rect.x + krampus.rect.w / 2, y: krampus.rect.y });
+  }
+
+  /** Shockwaves roll along the floor until they run out, hit a wall or reach a drop. Jump over them. */
+  private updateShockwave(wave: WorldEntity, dt: number) {
+    wave.life! -= dt;
+    wave.rect.x += wave.velocity.x * dt;
+    const blocks = (solid: Solid) => solid.kind !== 'oneWay' && !(solid.regrowTimer > 0);
+    const hitsWall = this.solids.some(solid => blocks(solid) && this.checkCollision(wave.rect, solid));
+    const underfoot = { x: wave.rect.x + wave.rect.w / 2, y: wave.rect.y - 1, w: 1, h: 1 };
+    const onFloor = this.solids.some(solid => !(solid.regrowTimer > 0) && this.checkCollision(underfoot, solid));
+    if (wave.life! <= 0 || hitsWall || !onFloor) {
+      this.removeEntity(wave);
+      return;
+    }
+    const player = this.playerTouching(wave.rect);
+    if (player) this.handlePlayerHit(player);
+  }
+
+  private krampusHead(krampus: WorldEntity): Rect {
+    return { x: krampus.rect.x, y: krampus.rect.y + krampus.rect.h - KRAMPUS_HEAD, w: krampus.rect.w, h: KRAMPUS_HEAD };
+  }
+
+  private hurtKrampus(krampus: WorldEntity, player: PlayerState) {
+    const boss = krampus.boss!;
+    if (boss.hurtTimer > 0) return;
+    boss.health--;
+    boss.hurtTimer = KRAMPUS_HURT_TIME;
+    if (boss.health <= 0) {
+      this.defeatKrampus(krampus, player);
+      return;
+    }
+    this.addScore(player, KRAMPUS_HIT_POINTS);
+    const head = this.krampusHead(krampus);
+    this.emit({ type: 'bossHit', x: head.x + head.w / 2, y: head.y + head.h / 2, points: KRAMPUS_HIT_POINTS });
+    this.emitBoss();
+  }
+
+  /**
+   * Krampus goes down with his reindeer and attacks; the board clears. Whoever landed the last blow
+   * gets a big bonus and an extra life.
+   */
+  private defeatKrampus(krampus: WorldEntity, player: PlayerState) {
+    this.removeEntity(krampus);
+    for (const entity of [...this.entities]) {
+      if (entity.brain) this.defeatEnemy(entity, 0, null);
+      else if (entity.type === EntityType.SHOCKWAVE || entity.type === EntityType.SNOWBALL) this.removeEntity(entity);
+    }
+    this.addScore(player, KRAMPUS_BONUS);
+    player.lives++;
+    this.emit({ type: 'lives', player: player.index, lives: player.lives });
+    this.emit({
+      type: 'bossDefeated',
+      x: krampus.rect.x + krampus.rect.w / 2,
+      y: krampus.rect.y + krampus.rect.h / 2,
+      points: KRAMPUS_BONUS
+    });
+    this.emitBoss();
+  }
+
+  private emitBoss() {
+    const boss = this.entities.find(e => e.boss)?.boss;
+    this.emit({ type: 'boss', health: boss?.health ?? 0, maxHealth: boss?.maxHealth ?? 0 });
+  }
+
+  /** Lets go of the last gift picked up, to fall on Krampus's head. */
+  private dropGift(state: PlayerState) {
+    const player = state.entity;
+    const gift = state.sack.pop()!;
+    this.emitSack(state);
+    const x = player.rect.x + player.rect.w / 2 - TILE_SIZE / 2;
+    const dropped = this.createEntity(x, player.rect.y - TILE_SIZE / 2, EntityType.DROPPED_GIFT, gift.sprite);
+    dropped.gift = gift;
+    dropped.owner = state;
+    dropped.velocity.y = Math.min(player.velocity.y, 0);
+  }
+
+  /** Dropped gifts fall through planks. Hit or miss, the gift goes back where it was found. */
+  private updateDroppedGift(dropped: WorldEntity, dt: number) {
+    dropped.velocity.y -= GRAVITY * dt;
+    dropped.rect.y += dropped.velocity.y * dt;
+
+    const krampus = this.entities.find(e => e.boss);
+    if (krampus && this.checkCollision(dropped.rect, this.krampusHead(krampus))) {
+      this.hurtKrampus(krampus, dropped.owner!);
+      this.returnGift(dropped);
+      return;
+    }
+    const landed = dropped.rect.y < 0 || (krampus && this.checkCollision(dropped.rect, krampus.rect))
+      || this.solids.some(solid => solid.kind !== 'oneWay' && !(solid.regrowTimer > 0) && this.checkCollision(dropped.rect, solid));
+    if (landed) {
+      this.emit({ type: 'giftLanded', x: dropped.rect.x + dropped.rect.w / 2, y: dropped.rect.y + dropped.rect.h / 2 });
+      this.returnGift(dropped);
+    }
+  }
+
+  // The same gift entity goes back, so it is still in countedGifts and picking it up again pays no set bonus
+  private returnGift(dropped: WorldEntity) {
+    this.removeEntity(dropped);
+    const gift = dropped.gift!;
+    this.snapToRect(gift);
+    this.entities.push(gift);
+  }
+
+  /**
+   * Starts the death sequence. Falling out of the world kills even while invulnerable.
+   * In co-op the whole board freezes while anyone is dying.
+   */
+  private handlePlayerHit(state: PlayerState, ignoreInvulnerability = false) {
+    if (state.dying) return;
+    if (state.invulnerableTimer > 0 && !ignoreInvulnerability) return;
+    if (state.powerUps.shield && !ignoreInvulnerability) {
+      // The shield soaks up the hit and breaks
+      delete state.powerUps.shield;
+      state.invulnerableTimer = SHIELD_GRACE;
+      this.emitPowerUps(state);
+      return;
+    }
+    const player = state.entity;
+    state.lives--;
+    this.emit({ type: 'lives', player: state.index, lives: state.lives });
+    state.dying = true;
+    this.deathTimer = DEATH_DURATION;
+    state.invulnerableTimer = 0;
+    player.velocity = { x: 0, y: 0 };
+    player.onLadder = false;
+    // Only the player who died loses their power-ups and combo; their sack spills once the sequence ends
+    state.comboTimer = 0;
+    this.setCombo(state, 1);
+    this.clearPowerUps(state);
+  }
+
+  // Santa holds still for DEATH_FREEZE, then pops up and falls through everything
+  private updateDeath(dt: number) {
+    const wasFrozen = this.deathTimer > DEATH_DURATION - DEATH_FREEZE;
+    this.deathTimer -= dt;
+
+    if (this.deathTimer <= 0) {
+      this.finishDeath();
+      return;
+    }
+    if (this.deathTimer > DEATH_DURATION - DEATH_FREEZE) return;
+
+    for (const state of this.players.filter(p => p.dying)) {
+      const player = state.entity;
+      if (wasFrozen) player.velocity.y = JUMP_FORCE * 0.8;
+      player.velocity.y -= GRAVITY * dt;
+      player.rect.y += player.velocity.y * dt;
+    }
+  }
+
+  /** Players out of lives leave the board for good; the game is over once nobody is left. */
+  private finishDeath() {
+    this.deathTimer = 0;
+    const dead = this.players.filter(p => p.dying);
+    for (const state of dead) {
+      state.dying = false;
+      if (state.lives <= 0) {
+        state.out = true;
+        this.removeEntity(state.entity);
+      }
+    }
+    if (this.activePlayers.length === 0) {
+      this.gameOver = true;
+      this.emit({ type: 'gameOver' });
+      return;
+    }
+
+    // Only the dead spill their sacks; a player going out leaves theirs behind for the partner
+    for (const state of dead) this.spillSack(state);
+    const { spawn } = this.currentLevel;
+    for (const state of dead.filter(p => !p.out)) {
+      const player = state.entity;
+      player.rect.x = spawn.x * TILE_SIZE + 2;
+      player.rect.y = spawn.y * TILE_SIZE;
+      player.velocity = { x: 0, y: 0 };
+      player.grounded = false;
+      this.snapToRect(player);
+      state.invulnerableTimer = INVULNERABLE_TIME;
+    }
+    this.levelTime = this.difficulty.timeLimit;
+    this.emitBonus();
+  }
+
+  private moveEntity(entity: WorldEntity, dt: number) {
+    // Conveyors add their push for this move only, so walking speed isn't accumulated
+    const belt = entity.floor?.kind === 'conveyor' ? entity.floor.push! * CONVEYOR_SPEED : 0;
+    entity.velocity.x += belt;
+    entity.rect.x += entity.velocity.x * dt;
+    this.handleCollisions(entity, 'x');
+    if (entity.velocity.x !== 0) entity.velocity.x -= belt;
+
+    const fromY = entity.rect.y;
+    entity.rect.y += entity.velocity.y * dt;
+    entity.grounded = false;
+    entity.floor = null;
+    this.handleCollisions(entity, 'y', fromY);
+    if (entity.dropFrom && !this.checkCollision(entity.rect, entity.dropFrom)) entity.dropFrom = undefined;
+  }
+
+  /** @param fromY The entity's y before this move, so one-way platforms only catch it from above. */
+  private handleCollisions(entity: WorldEntity, axis: 'x' | 'y', fromY = entity.rect.y) {
+    for (const solid of this.solids) {
+      if (solid.regrowTimer > 0) continue; // Collapsed
+      if (solid.kind === 'oneWay') {
+        const fromAbove = axis === 'y' && entity.velocity.y < 0 && fromY >= solid.y + solid.h;
+        if (!fromAbove || entity.dropFrom === solid) continue;
+      }
+      if (this.checkCollision(entity.rect, solid)) {
+        if (axis === 'x') {
+          if (entity.velocity.x > 0) entity.rect.x = solid.x - entity.rect.w;
+          else if (entity.velocity.x < 0) entity.rect.x = solid.x + solid.w;
+          entity.velocity.x = 0;
+        } else {
+          if (entity.velocity.y > 0) {
+            entity.rect.y = solid.y - entity.rect.h;
+            entity.velocity.y = 0;
+          } else if (entity.velocity.y < 0) {
+            entity.rect.y = solid.y + solid.h;
+            entity.velocity.y = 0;
+            entity.grounded = true;
+            entity.floor = solid;
+          }
+        }
+      }
+    }
+  }
+
+  private checkCollision(r1: Rect, r2: Rect): boolean {
+    return (
+      r1.x < r2.x + r2.w &&
+      r1.x + r1.w > r2.x &&
+      r1.y < r2.y + r2.h &&
+      r1.y + r1.h > r2.y
+    );
+  }
+
+  private checkOverlap(r1: Rect, targets: Rect[]): Rect | null {
+    for (const t of targets) {
+      const centerX = r1.x + r1.w / 2;
+      const centerY = r1.y + r1.h / 2;
+      if (centerX > t.x && centerX < t.x + t.w &&
+          centerY > t.y && centerY < t.y + t.h) {
+        return t;
+      }
+    }
+    return null;
+  }
+
+  private constrainToWorld(entity: WorldEntity) {
+    if (entity.rect.x < 0) {
+      entity.rect.x = 0;
+      entity.velocity.x = 0;
+    }
+    if (entity.rect.x + entity.rect.w > WORLD_WIDTH * TILE_SIZE) {
+      entity.rect.x = WORLD_WIDTH * TILE_SIZE - entity.rect.w;
+      entity.velocity.x = 0;
+    }
+    if (entity.rect.y < 0) {
+      if (entity.player) this.handlePlayerHit(entity.player, true);
+      else if (entity.brain && this.entities.some(e => e.spawner)) this.recycleEnemy(entity);
+      else if (entity.type !== EntityType.GIFT) {
+        entity.rect.y = WORLD_HEIGHT * TILE_SIZE;
+        this.snapToRect(entity);
+      }
+    }
+  }
+
+  // Teleports skip interpolation so the mesh doesn't visibly slide to the new spot
+  private snapToRect(entity: WorldEntity) {
+    entity.prevPos.x = entity.rect.x;
+    entity.prevPos.y = entity.rect.y;
+  }
+
+  private removeEntity(entity: WorldEntity) {
+    this.entities = this.entities.filter(e => e !== entity);
+  }
+}
@@ -0,0 +1,595 @@
+import * as THREE from 'three';
+import { createTextures, drawPixelTextCanvas } from '../utils/assetGenerator';
+import {
+  TILE_SIZE, WORLD_WIDTH, WORLD_HEIGHT, GRAVITY, COLORS, SPRITES, DEATH_DURATION, DEATH_FREEZE
+} from '../constants';
+import { EntityType, Level } from '../types';
+import { Random } from './Random';
+import { TILE_GLYPHS, TileKind, conveyorPush } from './Tiles';
+import { PLAYER_SPRITES, PlayerState, World, WorldEntity } from './World';
+
+const POPUP_LIFE = 0.9; // seconds a score popup stays up
+const POPUP_RISE = 20; // world units per second
+const CONVEYOR_FRAME_TIME = 0.12; // seconds per conveyor belt frame
+
+const TILE_TEXTURES: Record<TileKind, string> = {
+  floor: 'floor',
+  ice: 'ice',
+  conveyor: 'conveyor_0',
+  crumble: 'crumble',
+  oneWay: 'platform'
+};
+
+// Per-entity render state; the simulation knows nothing about meshes or animation frames
+interface EntityView {
+  mesh: THREE.Mesh;
+  animFrame: number;
+  animTimer: number;
+  lights?: THREE.Group; // Group of blinking lights for trees
+  shield?: THREE.Mesh; // Bubble shown around Santa while the snow shield is up
+}
+
+interface Particle {
+  mesh: THREE.Mesh;
+  velocity: THREE.Vector2;
+  life: number;
+  maxLife: number;
+}
+
+interface ScorePopup {
+  mesh: THREE.Mesh;
+  life: number;
+}
+
+interface SnowParticle {
+  mesh: THREE.Mesh;
+  speed: number;
+  drift: number;
+  driftSpeed: number;
+  offset: number;
+}
+
+/**
+ * Three.js view of a World. Builds meshes for tiles and entities, interpolates them between
+ * simulation steps and owns every purely cosmetic effect (snow, particles, blinking lights).
+ */
+export class WorldRenderer {
+  private container: HTMLDivElement;
+  private scene: THREE.Scene;
+  private camera: THREE.OrthographicCamera;
+  private renderer: THREE.WebGLRenderer;
+  private textures: Record<string, THREE.Texture>;
+  private fxRng: Random; // Cosmetic effects, forked from the run seed so they never shift gameplay
+
+  private views = new Map<number, EntityView>();
+  private tiles: THREE.Mesh[] = [];
+  private conveyors: THREE.Mesh[] = [];
+  private crumbleTiles = new Map<string, THREE.Mesh>(); // Keyed by the tile's "x,y" in world units
+  private particles: Particle[] = [];
+  private popups: ScorePopup[] = [];
+  private snowParticles: SnowParticle[] = [];
+  private time = 0;
+
+  // Shared geometries
+  private tileGeo = new THREE.PlaneGeometry(TILE_SIZE, TILE_SIZE);
+  private particleGeo = new THREE.PlaneGeometry(3, 3);
+  private snowGeo = new THREE.PlaneGeometry(2, 2);
+  private lightGeo = new THREE.PlaneGeometry(1, 1);
+  private shieldGeo = new THREE.RingGeometry(10, 11.5, 20);
+
+  constructor(container: HTMLDivElement, seed: number) {
+    this.container = container;
+    this.reseed(seed);
+
+    this.scene = new THREE.Scene();
+    this.scene.background = new THREE.Color(COLORS.BACKGROUND);
+
+    // Grid Helper
+    const worldW = WORLD_WIDTH * TILE_SIZE;
+    const worldH = WORLD_HEIGHT * TILE_SIZE;
+    const gridHelper = new THREE.GridHelper(worldW, WORLD_WIDTH, COLORS.SKY_GRID, COLORS.SKY_GRID);
+    gridHelper.rotation.x = Math.PI / 2;
+    gridHelper.position.set(worldW / 2, worldH / 2, -5);
+    this.scene.add(gridHelper);
+
+    // Initial camera setup
+    this.camera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0.1, 1000);
+    this.camera.position.z = 10;
+
+    this.renderer = new THREE.WebGLRenderer({ antialias: false, alpha: false });
+    this.renderer.setPixelRatio(window.devicePixelRatio);
+    this.renderer.domElement.style.display = 'block';
+    this.renderer.domElement.style.imageRendering = 'pixelated';
+    container.appendChild(this.renderer.domElement);
+
+    this.textures = createTextures();
+    this.initSnow();
+  }
+
+  reseed(seed: number) {
+    this.fxRng = new Random(seed).fork('fx');
+  }
+
+  private initSnow() {
+    const worldW = WORLD_WIDTH * TILE_SIZE;
+    const worldH = WORLD_HEIGHT * TILE_SIZE;
+    const snowCount = 60;
+
+    for (let i = 0; i < snowCount; i++) {
+      const mat = new THREE.MeshBasicMaterial({
+        color: COLORS.WHITE,
+        transparent: true,
+        opacity: this.fxRng.range(0.4, 0.8)
+      });
+      const mesh = new THREE.Mesh(this.snowGeo, mat);
+
+      const x = this.fxRng.range(0, worldW);
+      const y = this.fxRng.range(0, worldH);
+      mesh.position.set(x, y, -1);
+      this.scene.add(mesh);
+
+      this.snowParticles.push({
+        mesh,
+        speed: this.fxRng.range(12, 32),
+        drift: this.fxRng.range(10, 30),
+        driftSpeed: this.fxRng.range(0.8, 2.3),
+        offset: this.fxRng.range(0, Math.PI * 2)
+      });
+    }
+  }
+
+  /** Rebuilds the static tiles for a new board and drops every entity view. */
+  buildLevel(level: Level) {
+    this.views.forEach(view => this.scene.remove(view.mesh));
+    this.views.clear();
+    this.particles.forEach(p => this.scene.remove(p.mesh));
+    this.particles = [];
+    this.popups.forEach(p => this.removePopup(p));
+    this.popups = [];
+    this.tiles.forEach(tile => this.scene.remove(tile));
+    this.tiles = [];
+    this.conveyors = [];
+    this.crumbleTiles.clear();
+
+    this.scene.background = new THREE.Color(level.theme.background);
+
+    level.rows.forEach((row, y) => {
+      for (let x = 0; x < row.length; x++) {
+        const kind = TILE_GLYPHS[row[x]];
+        if (kind) {
+          const mesh = this.createTile(x * TILE_SIZE, y * TILE_SIZE, TILE_TEXTURES[kind]);
+          if (kind === 'conveyor') {
+            mesh.scale.x = conveyorPush(row[x]); // The sprite runs right
+            this.conveyors.push(mesh);
+          } else if (kind === 'crumble') {
+            this.crumbleTiles.set(`${x * TILE_SIZE},${y * TILE_SIZE}`, mesh);
+          }
+        } else if (row[x] === 'H') {
+          this.createTile(x * TILE_SIZE, y * TILE_SIZE, 'ladder');
+        }
+      }
+    });
+  }
+
+  private createTile(x: number, y: number, textureKey: string): THREE.Mesh {
+    const mat = new THREE.MeshBasicMaterial({
+      map: this.textures[textureKey],
+      transparent: true
+    });
+    const mesh = new THREE.Mesh(this.tileGeo, mat);
+    mesh.position.set(x + TILE_SIZE / 2, y + TILE_SIZE / 2, 0);
+    this.scene.add(mesh);
+    this.tiles.push(mesh);
+    return mesh;
+  }
+
+  private createView(entity: WorldEntity): EntityView {
+    if (entity.type === EntityType.PLATFORM) return this.createPlatformView(entity);
+    const mat = new THREE.MeshBasicMaterial({
+      map: this.textures[entity.sprite],
+      transparent: true
+    });
+    // Krampus is the one sprite bigger than a tile
+    const geo = entity.type === EntityType.BOSS ? new THREE.PlaneGeometry(entity.rect.w, entity.rect.h) : this.tileGeo;
+    const mesh = new THREE.Mesh(geo, mat);
+    const isPickup = entity.type === EntityType.GIFT || entity.type === EntityType.POWERUP
+      || entity.type === EntityType.DROPPED_GIFT;
+    const isScenery = entity.type === EntityType.DECORATION || entity.type === EntityType.CHIMNEY
+      || entity.type === EntityType.HAZARD || entity.type === EntityType.SPAWNER;
+    mesh.position.z = isScenery || isPickup ? 0.5
+      : entity.type === EntityType.SNOWBALL || entity.type === EntityType.SHOCKWAVE ? 1.5 : 1;
+    this.scene.add(mesh);
+
+    const view: EntityView = { mesh, animFrame: 0, animTimer: 0 };
+    if (entity.type === EntityType.DECORATION && entity.sprite.startsWith('tree')) {
+      this.addBlinkingLightsToTree(view, entity.sprite);
+    }
+    return view;
+  }
+
+  // Platforms are several tiles wide and half a tile high: repeat the top half of the sprite along them
+  private createPlatformView(entity: WorldEntity): EntityView {
+    const texture = this.textures[entity.sprite].clone();
+    texture.wrapS = THREE.RepeatWrapping;
+    texture.repeat.set(entity.rect.w / TILE_SIZE, entity.rect.h / TILE_SIZE);
+    texture.offset.set(0, 1 - entity.rect.h / TILE_SIZE);
+    texture.needsUpdate = true;
+    const mat = new THREE.MeshBasicMaterial({ map: texture, transparent: true });
+    const mesh = new THREE.Mesh(new THREE.PlaneGeometry(entity.rect.w, entity.rect.h), mat);
+    mesh.position.z = 0.5;
+    this.scene.add(mesh);
+    return { mesh, animFrame: 0, animTimer: 0 };
+  }
+
+  private addBlinkingLightsToTree(view: EntityView, textureKey: string) {
+    const spriteKey = textureKey.toUpperCase() as keyof typeof SPRITES;
+    const matrix = SPRITES[spriteKey];
+    if (!matrix) return;
+
+    const validPositions: {x: number, y: number}[] = [];
+    for (let r = 0; r < matrix.length; r++) {
+      for (let c = 0; c < matrix[r].length; c++) {
+        if (matrix[r][c] === 7) { // 7 is Green (Leaves)
+          validPositions.push({ x: c, y: r });
+        }
+      }
+    }
+
+    if (validPositions.length === 0) return;
+
+    const lightsGroup = new THREE.Group();
+    const lightColors = [COLORS.RED, COLORS.YELLOW, COLORS.TEAL, COLORS.PINK, COLORS.BLUE];
+    const lightCount = 6 + this.fxRng.int(4);
+
+    for (let i = 0; i < lightCount; i++) {
+      const idx = this.fxRng.int(validPositions.length);
+      const pos = validPositions.splice(idx, 1)[0];
+
+      const color = this.fxRng.pick(lightColors);
+      const mat = new THREE.MeshBasicMaterial({ color, transparent: true, opacity: 1 });
+      const lightMesh = new THREE.Mesh(this.lightGeo, mat);
+
+      // Convert grid coordinates (0-15) to local plane coordinates (-7.5 to 7.5)
+      // Plane is TILE_SIZE x TILE_SIZE (16x16)
+      const lx = pos.x - 7.5;
+      const ly = 7.5 - pos.y;
+
+      lightMesh.position.set(lx, ly, 0.1);
+      // Store random phase for blinking
+      lightMesh.userData.blinkPhase = this.fxRng.range(0, Math.PI * 2);
+      lightMesh.userData.blinkSpeed = this.fxRng.range(3, 8);
+
+      lightsGroup.add(lightMesh);
+    }
+
+    view.lights = lightsGroup;
+    view.mesh.add(lightsGroup);
+  }
+
+  spawnExplosion(x: number, y: number) {
+    this.spawnParticles(x, y, 12, [COLORS.RED, COLORS.YELLOW, COLORS.GREEN, COLORS.WHITE, COLORS.PINK, COLORS.TEAL], 100, 250);
+  }
+
+  /** Floating "+300 x3" in the pixel font that drifts up from where points were scored. */
+  spawnScorePopup(x: number, y: number, points: number, multiplier = 1, bonus = false) {
+    const text = multiplier > 1 ? `+${points} x${multiplier}` : `+${points}`;
+    const color = bonus ? COLORS.PINK : multiplier > 1 ? COLORS.YELLOW : COLORS.WHITE;
+    const canvas = drawPixelTextCanvas(text, color);
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.magFilter = THREE.NearestFilter;
+    texture.minFilter = THREE.NearestFilter;
+    texture.colorSpace = THREE.SRGBColorSpace;
+
+    // One world unit per font pixel, like the 16x16 sprites
+    const geo = new THREE.PlaneGeometry(canvas.width / 4, canvas.height / 4);
+    const mat = new THREE.MeshBasicMaterial({ map: texture, transparent: true });
+    const mesh = new THREE.Mesh(geo, mat);
+    mesh.position.set(Math.round(x), Math.round(y + TILE_SIZE / 2), 3);
+    this.scene.add(mesh);
+    this.popups.push({ mesh, life: POPUP_LIFE });
+  }
+
+  /** Puff of snow where a snowball, a snow block or an ice hazard breaks. */
+  spawnShatter(x: number, y: number) {
+    this.spawnParticles(x, y, 8, [COLORS.WHITE, COLORS.WHITE, COLORS.BLUE], 40, 120);
+  }
+
+  /** Embers drifting out of a grotto door that is about to release an enemy. */
+  spawnEmbers(x: number, y: number) {
+    this.spawnParticles(x, y, 6, [COLORS.ORANGE, COLORS.YELLOW, COLORS.RED], 20, 60);
+  }
+
+  /** Burst left behind by a defeated enemy. */
+  spawnPoof(x: number, y: number) {
+    this.spawnParticles(x, y, 10, [COLORS.BROWN, COLORS.WHITE, COLORS.YELLOW], 60, 160);
+  }
+
+  private spawnParticles(x: number, y: number, count: number, colors: string[], minSpeed: number, maxSpeed: number) {
+    for (let i = 0; i < count; i++) {
+      const color = this.fxRng.pick(colors);
+      const mat = new THREE.MeshBasicMaterial({ color, transparent: true, opacity: 1 });
+      const mesh = new THREE.Mesh(this.particleGeo, mat);
+
+      mesh.position.set(x, y, 2);
+      this.scene.add(mesh);
+
+      const angle = this.fxRng.range(0, Math.PI * 2);
+      const speed = this.fxRng.range(minSpeed, maxSpeed);
+
+      this.particles.push({
+        mesh,
+        velocity: new THREE.Vector2(Math.cos(angle) * speed, Math.sin(angle) * speed),
+        life: this.fxRng.range(0.6, 1),
+        maxLife: this.fxRng.range(0.6, 1)
+      });
+    }
+  }
+
+  /**
+   * Draws the world.
+   * @param alpha Fraction of a simulation step elapsed since the last update (0..1).
+   * @param dt Real seconds since the previous frame, for cosmetic animation.
+   */
+  render(world: World, alpha: number, dt: number) {
+    this.time += dt;
+    this.syncViews(world, alpha, dt);
+    this.animateTiles(world);
+    this.updateSnow(dt);
+    this.updateParticles(dt);
+    this.updatePopups(dt);
+    this.renderer.render(this.scene, this.camera);
+  }
+
+  private syncViews(world: World, alpha: number, dt: number) {
+    const alive = new Set<number>();
+
+    for (const entity of world.entities) {
+      alive.add(entity.id);
+      let view = this.views.get(entity.id);
+      if (!view) {
+        view = this.createView(entity);
+        this.views.set(entity.id, view);
+      }
+
+      // Interpolate between the previous and current simulated position
+      view.mesh.position.x = entity.prevPos.x + (entity.rect.x - entity.prevPos.x) * alpha + entity.rect.w / 2;
+      view.mesh.position.y = entity.prevPos.y + (entity.rect.y - entity.prevPos.y) * alpha + entity.rect.h / 2;
+
+      if (entity.type === EntityType.POWERUP) {
+        view.mesh.position.y += Math.round(Math.sin(this.time * 4) * 1.5); // Bob to stand out from gifts
+      } else if (entity.hazard) {
+        // Hidden until it grows back; an icicle about to drop shakes like crumbling snow
+        view.mesh.visible = entity.hazard.state !== 'gone';
+        if (entity.hazard.state === 'shaking') view.mesh.position.x += Math.round(Math.sin(this.time * 60));
+      } else if (entity.boss) {
+        // Flashes while he flinches from a hit
+        view.mesh.visible = entity.boss.hurtTimer <= 0 || Math.floor(entity.boss.hurtTimer * 12) % 2 === 0;
+      } else if (entity.type === EntityType.SHOCKWAVE) {
+        view.mesh.scale.x = entity.direction;
+      } else if (entity.spawner) {
+        // The door flaps open and shut while an enemy is about to come out
+        const open = entity.spawner.warning > 0 && Math.floor(this.time * 8) % 2 === 0;
+        this.setTexture(view, open ? 'grotto_open' : 'grotto');
+      } else if (entity.type === EntityType.PLAYER) {
+        this.animatePlayer(world, entity, view, dt);
+      } else if (entity.type === EntityType.ENEMY_REINDEER || entity.type === EntityType.ENEMY_SNOWMAN) {
+        view.mesh.scale.x = entity.direction;
+        if (entity.turret) {
+          this.setTexture(view, entity.turret.windup > 0 ? 'snowman_throw' : 'snowman');
+        }
+        if (entity.type === EntityType.ENEMY_REINDEER && world.deathTimer <= 0) {
+          view.animTimer += dt;
+          if (view.animTimer > 0.15) {
+            view.animTimer = 0;
+            view.animFrame = (view.animFrame + 1) % 2;
+            this.setTexture(view, `reindeer_${view.animFrame}`);
+          }
+        }
+      }
+
+      // Update tree lights blinking
+      if (view.lights) {
+        view.lights.children.forEach((light: THREE.Object3D) => {
+          const l = light as THREE.Mesh;
+          const phase = l.userData.blinkPhase;
+          const speed = l.userData.blinkSpeed;
+          // Blinking effect: sudden on/off logic
+          const val = Math.sin(this.time * speed + phase);
+          const mat = l.material as THREE.MeshBasicMaterial;
+          mat.opacity = val > 0.3 ? 1 : 0;
+        });
+      }
+    }
+
+    for (const [id, view] of this.views) {
+      if (!alive.has(id)) {
+        this.scene.remove(view.mesh);
+        this.views.delete(id);
+      }
+    }
+  }
+
+  private animatePlayer(world: World, player: WorldEntity, view: EntityView, dt: number) {
+    const { index, invulnerableTimer, dying } = player.player!;
+    const skin = PLAYER_SPRITES[index]; // Mrs. Claus has her own palette-swapped frames
+    let textureKey = `${skin}_idle`;
+    const isMovingX = Math.abs(player.velocity.x) > 10;
+    const isMovingY = Math.abs(player.velocity.y) > 10;
+
+    // Blink while invulnerable after a respawn
+    view.mesh.visible = invulnerableTimer <= 0 || Math.floor(invulnerableTimer * 12) % 2 === 0;
+    view.mesh.rotation.z = 0;
+    this.showPowerUps(player.player!, view);
+
+    if (dying) {
+        // Stunned during the freeze, then tumbles as it falls off screen
+        const tumbleTime = DEATH_DURATION - DEATH_FREEZE - world.deathTimer;
+        textureKey = `${skin}_jump`;
+        view.mesh.scale.x = player.direction;
+        if (tumbleTime > 0) view.mesh.rotation.z = -player.direction * tumbleTime * Math.PI * 3;
+    } else if (world.deathTimer > 0) {
+        return; // Frozen with the rest of the board while the other player goes down
+    } else if (player.onLadder) {
+        const animSpeed = 0.1;
+        if (isMovingY) {
+            view.animTimer += dt;
+            if (view.animTimer > animSpeed) {
+                view.animTimer = 0;
+                view.animFrame = (view.animFrame + 1) % 2;
+            }
+        }
+        textureKey = `${skin}_climb_${view.animFrame}`;
+        view.mesh.scale.x = 1;
+    } else if (!player.grounded) {
+        textureKey = `${skin}_jump`;
+        view.mesh.scale.x = player.direction;
+    } else if (isMovingX) {
+        const animSpeed = 0.12;
+        view.animTimer += dt;
+        if (view.animTimer > animSpeed) {
+            view.animTimer = 0;
+            view.animFrame = (view.animFrame + 1) % 2;
+        }
+        textureKey = `${skin}_run_${view.animFrame}`;
+        view.mesh.scale.x = player.direction;
+    } else {
+        textureKey = `${skin}_idle`;
+        view.animFrame = 0;
+        view.animTimer = 0;
+        view.mesh.scale.x = player.direction;
+    }
+
+    this.setTexture(view, textureKey);
+  }
+
+  // Hammer: Santa flashes yellow. Shield: a bubble around him. Each player shows only their own
+  private showPowerUps(state: PlayerState, view: EntityView) {
+    const { powerUps } = state;
+    const mat = view.mesh.material as THREE.MeshBasicMaterial;
+    mat.color.set(powerUps.hammer && Math.floor(this.time * 8) % 2 === 0 ? COLORS.YELLOW : COLORS.WHITE);
+
+    if (powerUps.shield && !view.shield) {
+      const shieldMat = new THREE.MeshBasicMaterial({ color: COLORS.TEAL, transparent: true, opacity: 0.7 });
+      view.shield = new THREE.Mesh(this.shieldGeo, shieldMat);
+      view.shield.position.z = 0.1;
+      view.mesh.add(view.shield);
+    }
+    if (view.shield) view.shield.visible = !!powerUps.shield;
+  }
+
+  // Conveyor belts scroll; crumbling snow shakes before it collapses and is hidden until it grows back
+  private animateTiles(world: World) {
+    const belt = this.textures[`conveyor_${Math.floor(this.time / CONVEYOR_FRAME_TIME) % 2}`];
+    for (const mesh of this.conveyors) {
+      const mat = mesh.material as THREE.MeshBasicMaterial;
+      if (mat.map !== belt) {
+        mat.map = belt;
+        mat.needsUpdate = true;
+      }
+    }
+
+    for (const solid of world.solids) {
+      if (solid.kind !== 'crumble') continue;
+      const mesh = this.crumbleTiles.get(`${solid.x},${solid.y}`);
+      if (!mesh) continue;
+      mesh.visible = !(solid.regrowTimer > 0);
+      const shake = solid.crumbleTimer > 0 ? Math.round(Math.sin(this.time * 60)) : 0;
+      mesh.position.x = solid.x + TILE_SIZE / 2 + shake;
+    }
+  }
+
+  private setTexture(view: EntityView, textureKey: string) {
+    const mat = view.mesh.material as THREE.MeshBasicMaterial;
+    if (mat.map !== this.textures[textureKey]) {
+      mat.map = this.textures[textureKey];
+      mat.needsUpdate = true;
+    }
+  }
+
+  private updateSnow(dt: number) {
+    const worldW = WORLD_WIDTH * TILE_SIZE;
+    const worldH = WORLD_HEIGHT * TILE_SIZE;
+    for (const p of this.snowParticles) {
+      p.mesh.position.y -= p.speed * dt;
+      p.mesh.position.x += Math.sin(this.time * p.driftSpeed + p.offset) * p.drift * dt;
+
+      if (p.mesh.position.y < -TILE_SIZE) {
+        p.mesh.position.y = worldH + TILE_SIZE;
+        p.mesh.position.x = this.fxRng.range(0, worldW);
+      }
+    }
+  }
+
+  private updatePopups(dt: number) {
+    for (let i = this.popups.length - 1; i >= 0; i--) {
+      const p = this.popups[i];
+      p.life -= dt;
+      if (p.life <= 0) {
+        this.removePopup(p);
+        this.popups.splice(i, 1);
+        continue;
+      }
+      p.mesh.position.y += POPUP_RISE * dt;
+      (p.mesh.material as THREE.MeshBasicMaterial).opacity = Math.min(1, p.life / (POPUP_LIFE / 3));
+    }
+  }
+
+  private removePopup(popup: ScorePopup) {
+    this.scene.remove(popup.mesh);
+    popup.mesh.geometry.dispose();
+    const mat = popup.mesh.material as THREE.MeshBasicMaterial;
+    mat.map?.dispose();
+    mat.dispose();
+  }
+
+  private updateParticles(dt: number) {
+    for (let i = this.particles.length - 1; i >= 0; i--) {
+      const p = this.particles[i];
+      p.life -= dt;
+      if (p.life <= 0) {
+        this.scene.remove(p.mesh);
+        this.particles.splice(i, 1);
+        continue;
+      }
+
+      p.velocity.y -= GRAVITY * dt * 0.5;
+      p.mesh.position.x += p.velocity.x * dt;
+      p.mesh.position.y += p.velocity.y * dt;
+
+      const mat = p.mesh.material as THREE.MeshBasicMaterial;
+      mat.opacity = p.life / p.maxLife;
+    }
+  }
+
+  resize(width: number, height: number) {
+      if (width === 0 || height === 0) return;
+      this.renderer.setSize(width, height);
+
+      const worldW = WORLD_WIDTH * TILE_SIZE;
+      const worldH = WORLD_HEIGHT * TILE_SIZE;
+      const aspect = width / height;
+      const worldAspect = worldW / worldH;
+
+      if (aspect > worldAspect) {
+        const viewW = worldH * aspect;
+        const offset = (viewW - worldW) / 2;
+        this.camera.left = -offset;
+        this.camera.right = worldW + offset;
+        this.camera.top = worldH;
+        this.camera.bottom = 0;
+      } else {
+        const viewH = worldW / aspect;
+        const offset = (viewH - worldH) / 2;
+        this.camera.left = 0;
+        this.camera.right = worldW;
+        this.camera.top = worldH + offset;
+        this.camera.bottom = -offset;
+      }
+      this.camera.updateProjectionMatrix();
+  }
+
+  dispose() {
+    this.renderer.dispose();
+    this.container.innerHTML = '';
+  }
+}
@@ -0,0 +1,23 @@
+import { parseLevel } from '../game/LevelLoader';
+import { Level } from '../types';
+import northPoleWarehouse from './01-north-pole-warehouse.json';
+import toyWorkshop from './02-toy-workshop.json';
+import chimneyTops from './03-chimney-tops.json';
+import sleighYard from './04-sleigh-yard.json';
+import krampusLair from './krampus-lair.json';
+
+// Boards are played in this order; the campaign loops once the last one is cleared.
+const CAMPAIGN_DATA: unknown[] = [
+  northPoleWarehouse,
+  toyWorkshop,
+  chimneyTops,
+  sleighYard,
+];
+
+// Krampus waits after every BOSS_EVERY boards
+const BOSS_EVERY = 4;
+
+export const loadCampaign = (): Level[] => {
+  const boss = parseLevel(krampusLair);
+  return CAMPAIGN_DATA.flatMap((data, i) => (i + 1) % BOSS_EVERY === 0 ? [parseLevel(data), boss] : [parseLevel(data)]);
+};
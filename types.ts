@@ -7,7 +7,16 @@ export enum EntityType {
   GIFT,
   OBSTACLE,
   LADDER,
-  DECORATION // Trees, Snow piles
+  DECORATION, // Trees, Snow piles
+  SNOWBALL, // Thrown by snowmen
+  POWERUP,
+  CHIMNEY, // Delivery target on 'deliver' boards
+  PLATFORM, // Moving sled or elevator
+  HAZARD, // Icicle or frozen puddle
+  SPAWNER, // Grotto door that releases enemies
+  BOSS, // Krampus
+  SHOCKWAVE, // Sent along the floor by Krampus's ground-pound
+  DROPPED_GIFT // Falling out of Santa's sack
 }
 
 export interface Rect {
@@ -17,6 +26,44 @@ export interface Rect {
   h: number;
 }
 
+/** The controls a player has, whichever keys, sticks or buttons they are bound to. */
+export type Action = 'left' | 'right' | 'up' | 'down' | 'jump';
+
+/** Which actions are held right now, merged from every device driving that player. */
+export type ActionState = Record<Action, boolean>;
+
+/** One simulation step's worth of player input, however it was produced (keyboard, gamepad, script, replay). */
+export interface InputState {
+  x: number; // -1, 0 or 1
+  y: number; // -1, 0 or 1 (up is positive)
+  jump: boolean;
+}
+
+export type PowerUpKind = 'hammer' | 'cocoa' | 'shield';
+
+/** Whole seconds left on each active power-up, as shown in the HUD. */
+export type PowerUpTimers = Partial<Record<PowerUpKind, number>>;
+
+/** What clears a board: touching every gift, carrying them all to a chimney, or defeating Krampus ('K'). */
+export type LevelObjective = 'collect' | 'deliver' | 'boss';
+
+/**
+ * A moving platform that shuttles between stops at a steady speed.
+ * Each stop is the tile its left end sits in; consecutive stops must share a row or a column.
+ */
+export interface PlatformPath {
+  path: { x: number; y: number }[];
+  width: number; // in tiles
+  speed: number; // tiles per second
+  loop?: boolean; // Go from the last stop straight back to the first instead of reversing
+}
+
+/** How grotto doors ('D') release reindeer. Every door keeps its own clock. */
+export interface SpawnerSchedule {
+  interval: number; // Seconds between releases from each door
+  max: number; // Doors stay shut while the board holds this many enemies
+}
+
 export interface GameState {
   score: number;
   lives: number;
@@ -25,4 +72,41 @@ export interface GameState {
   level: number;
 }
 
+export interface LevelTheme {
+  music: string;
+  background: string;
+}
+
+/**
+ * On-disk level format (see levels/*.json).
+ * `map` is listed top row first, exactly as it reads in the file.
+ */
+export interface LevelData {
+  version: number;
+  name: string;
+  theme: LevelTheme;
+  enemySpeed: { reindeer: number; snowman: number };
+  gifts: { min: number; max: number };
+  objective?: LevelObjective; // Defaults to 'collect'
+  platforms?: PlatformPath[]; // Stop rows counted from the top, like `map`
+  spawners?: SpawnerSchedule; // Defaults to DEFAULT_SPAWNERS
+  map: string[];
+}
+
+/**
+ * A validated level ready for the engine.
+ * `rows` are stored bottom row first so that row index matches world Y.
+ */
+export interface Level {
+  name: string;
+  theme: LevelTheme;
+  enemySpeed: { reindeer: number; snowman: number };
+  gifts: { min: number; max: number };
+  objective: LevelObjective;
+  platforms: PlatformPath[]; // Stop rows counted from the bottom, like `rows`
+  spawners: SpawnerSchedule;
+  rows: string[];
+  spawn: { x: number; y: number }; // in tiles
+}
+
 export type AssetMap = Record<string, THREE.Texture>;
\ No newline at end of file
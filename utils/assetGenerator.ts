@@ -1,28 +1,64 @@
 
 import * as THREE from 'three';
-import { SPRITES, COLORS, GLOBAL_PALETTE } from '../constants';
+import { SPRITES, COLORS, GLOBAL_PALETTE, PIXEL_FONT } from '../constants';
+
+/**
+ * Rasterises a palette matrix onto an upscaled canvas. Most sprites are 16x16; bigger ones
+ * (Krampus) take their size from the matrix.
+ */
+export const drawSpriteCanvas = (matrix: number[][]): HTMLCanvasElement => {
+  const height = matrix.length;
+  const width = matrix[0]?.length ?? 0;
+  const scale = 4; // Upscale for crispness
+  const canvas = document.createElement('canvas');
+  canvas.width = width * scale;
+  canvas.height = height * scale;
+  const ctx = canvas.getContext('2d')!;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const colorIndex = matrix[y]?.[x] || 0;
+      if (colorIndex !== 0 && GLOBAL_PALETTE[colorIndex]) {
+        ctx.fillStyle = GLOBAL_PALETTE[colorIndex];
+        ctx.fillRect(x * scale, y * scale, scale, scale);
+      }
+    }
+  }
+  return canvas;
+};
+
+/**
+ * Renders text in the 3x5 PIXEL_FONT with a one-pixel drop shadow, upscaled like the sprites.
+ * The canvas is (4 * length + 1) x 6 font pixels.
+ */
+export const drawPixelTextCanvas = (text: string, color: string): HTMLCanvasElement => {
+  const scale = 4;
+  const canvas = document.createElement('canvas');
+  canvas.width = (text.length * 4 + 1) * scale;
+  canvas.height = 6 * scale;
+  const ctx = canvas.getContext('2d')!;
+
+  const paint = (offset: number, fill: string) => {
+    ctx.fillStyle = fill;
+    [...text].forEach((char, i) => {
+      const glyph = PIXEL_FONT[char] ?? PIXEL_FONT[' '];
+      glyph.forEach((row, y) => {
+        for (let x = 0; x < row.length; x++) {
+          if (row[x] === '1') ctx.fillRect((i * 4 + x + offset) * scale, (y + offset) * scale, scale, scale);
+        }
+      });
+    });
+  };
+  paint(1, COLORS.BLACK);
+  paint(0, color);
+  return canvas;
+};
 
 export const createTextures = (): Record<string, THREE.Texture> => {
   const textures: Record<string, THREE.Texture> = {};
 
   const drawSprite = (matrix: number[][]) => {
-    const size = 16;
-    const scale = 4; // Upscale for crispness
-    const canvas = document.createElement('canvas');
-    canvas.width = size * scale;
-    canvas.height = size * scale;
-    const ctx = canvas.getContext('2d')!;
-
-    for (let y = 0; y < size; y++) {
-      for (let x = 0; x < size; x++) {
-        const colorIndex = matrix[y]?.[x] || 0;
-        if (colorIndex !== 0 && GLOBAL_PALETTE[colorIndex]) {
-          ctx.fillStyle = GLOBAL_PALETTE[colorIndex];
-          ctx.fillRect(x * scale, y * scale, scale, scale);
-        }
-      }
-    }
-    const tex = new THREE.CanvasTexture(canvas);
+    const tex = new THREE.CanvasTexture(drawSpriteCanvas(matrix));
     tex.magFilter = THREE.NearestFilter;
     tex.minFilter = THREE.NearestFilter;
     tex.colorSpace = THREE.SRGBColorSpace;
@@ -36,10 +72,30 @@ export const createTextures = (): Record<string, THREE.Texture> => {
   textures['santa_jump'] = drawSprite(SPRITES.SANTA_JUMP);
   textures['santa_climb_0'] = drawSprite(SPRITES.SANTA_CLIMB_0);
   textures['santa_climb_1'] = drawSprite(SPRITES.SANTA_CLIMB_1);
+
+  // Mrs. Claus (co-op player 2): Santa's frames with the red suit swapped for purple
+  const santaFrames: [string, number[][]][] = [
+    ['idle', SPRITES.SANTA_IDLE],
+    ['run_0', SPRITES.SANTA_RUN_0],
+    ['run_1', SPRITES.SANTA_RUN_1],
+    ['jump', SPRITES.SANTA_JUMP],
+    ['climb_0', SPRITES.SANTA_CLIMB_0],
+    ['climb_1', SPRITES.SANTA_CLIMB_1]
+  ];
+  santaFrames.forEach(([frame, matrix]) => {
+    textures[`mrs_claus_${frame}`] = drawSprite(matrix.map(row => row.map(pixel => pixel === 1 ? 10 : pixel)));
+  });
   
   textures['reindeer_0'] = drawSprite(SPRITES.REINDEER_0);
   textures['reindeer_1'] = drawSprite(SPRITES.REINDEER_1);
   textures['snowman'] = drawSprite(SPRITES.SNOWMAN);
+  textures['snowman_throw'] = drawSprite(SPRITES.SNOWMAN_THROW);
+  textures['snowball'] = drawSprite(SPRITES.SNOWBALL);
+
+  textures['powerup_hammer'] = drawSprite(SPRITES.POWERUP_HAMMER);
+  textures['powerup_cocoa'] = drawSprite(SPRITES.POWERUP_COCOA);
+  textures['powerup_shield'] = drawSprite(SPRITES.POWERUP_SHIELD);
+  textures['chimney'] = drawSprite(SPRITES.CHIMNEY);
   
   // Register the 2 tree variants
   textures['tree_0'] = drawSprite(SPRITES.TREE_0);
@@ -47,6 +103,20 @@ export const createTextures = (): Record<string, THREE.Texture> => {
   
   textures['floor'] = drawSprite(SPRITES.FLOOR);
   textures['ladder'] = drawSprite(SPRITES.LADDER);
+  textures['ice'] = drawSprite(SPRITES.ICE);
+  textures['conveyor_0'] = drawSprite(SPRITES.CONVEYOR_0);
+  textures['conveyor_1'] = drawSprite(SPRITES.CONVEYOR_1);
+  textures['crumble'] = drawSprite(SPRITES.CRUMBLE);
+  textures['platform'] = drawSprite(SPRITES.PLATFORM);
+  textures['sled'] = drawSprite(SPRITES.SLED);
+  textures['elevator'] = drawSprite(SPRITES.ELEVATOR);
+  textures['icicle'] = drawSprite(SPRITES.ICICLE);
+  textures['puddle'] = drawSprite(SPRITES.PUDDLE);
+  textures['grotto'] = drawSprite(SPRITES.GROTTO);
+  textures['grotto_open'] = drawSprite(SPRITES.GROTTO_OPEN);
+  textures['krampus'] = drawSprite(SPRITES.KRAMPUS);
+  textures['coal'] = drawSprite(SPRITES.COAL);
+  textures['shockwave'] = drawSprite(SPRITES.SHOCKWAVE);
 
   // Generate Gift Variations
   const giftVariants = [
@@ -0,0 +1,12 @@
+/**
+ * Saves text as a file through a temporary object URL.
+ */
+export const downloadText = (filename: string, text: string, type = 'application/json') => {
+  const blob = new Blob([text], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};